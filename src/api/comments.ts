@@ -3,13 +3,24 @@
  */
 
 import { HttpClient } from '../utils/http';
-import { Comment, CreateCommentRequest } from '../models/types';
+import { ResponseCache } from '../cache/response-cache';
+import { decodeComment, decodeListWith, decodeWith } from '../decode/decoders';
+import { assertValid, validateCreateComment } from '../utils/validation';
+import { Session } from '../session/session';
+import { CallOptions, Comment, CreateCommentRequest, DecodeOptions, WithDatesIf } from '../models/types';
 
 /**
  * API for managing comments on feedback items
+ *
+ * `TDates` is true when the client decodes with `dates: true`.
  */
-export class CommentsApi {
-  constructor(private http: HttpClient) {}
+export class CommentsApi<TDates extends boolean = false> {
+  constructor(
+    private http: HttpClient,
+    private cache: ResponseCache | null = null,
+    private decode: DecodeOptions | null = null,
+    private session: Session | null = null
+  ) {}
 
   /**
    * List all comments for a feedback item
@@ -17,6 +28,7 @@ export class CommentsApi {
    * Comments are sorted by creation time (ascending - oldest first).
    *
    * @param feedbackId - The feedback UUID
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns Array of comments
    * @throws NotFoundError if feedback doesn't exist
    *
@@ -29,8 +41,12 @@ export class CommentsApi {
    * }
    * ```
    */
-  async list(feedbackId: string): Promise<Comment[]> {
-    return this.http.get<Comment[]>(`/feedbacks/${feedbackId}/comments`);
+  async list(feedbackId: string, callOptions?: CallOptions): Promise<WithDatesIf<Comment, TDates>[]> {
+    const comments = await this.http.get<unknown>(`/feedbacks/${feedbackId}/comments`, undefined, {
+      ...callOptions,
+      operation: 'comments.list'
+    });
+    return decodeListWith(decodeComment, comments, this.decode) as WithDatesIf<Comment, TDates>[];
   }
 
   /**
@@ -38,10 +54,12 @@ export class CommentsApi {
    *
    * @param feedbackId - The feedback UUID
    * @param request - Comment details
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns The created comment
    * @throws NotFoundError if feedback doesn't exist
-   * @throws ValidationError if content is empty
+   * @throws ValidationError without a request if content is empty or too long
    * @throws ForbiddenError if project is archived
+   * @throws QueuedError if the client is offline and the request was queued for replay
    *
    * @example
    * ```ts
@@ -59,12 +77,25 @@ export class CommentsApi {
    * });
    * ```
    */
-  async create(feedbackId: string, request: CreateCommentRequest): Promise<Comment> {
-    return this.http.post<Comment>(`/feedbacks/${feedbackId}/comments`, {
+  async create(
+    feedbackId: string,
+    request: CreateCommentRequest,
+    callOptions?: CallOptions
+  ): Promise<WithDatesIf<Comment, TDates>> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    assertValid(validateCreateComment(feedbackId, { ...request, userId }));
+
+    const response = await this.http.post<unknown>(`/feedbacks/${feedbackId}/comments`, {
       content: request.content,
-      userId: request.userId,
+      userId,
       isAdmin: request.isAdmin ?? false
-    });
+    }, { ...callOptions, queueable: true, operation: 'comments.create' });
+    const comment = decodeWith(decodeComment, response, this.decode);
+
+    this.cache?.patchFeedback(feedbackId, (feedback) => ({
+      commentCount: feedback.commentCount + 1
+    }));
+    return comment as WithDatesIf<Comment, TDates>;
   }
 }
 
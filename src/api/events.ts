@@ -3,7 +3,19 @@
  */
 
 import { HttpClient } from '../utils/http';
-import { TrackedEvent, TrackEventRequest } from '../models/types';
+import {
+  AutoTrackEventName,
+  CallOptions,
+  DecodeOptions,
+  TrackBatchOptions,
+  TrackedEvent,
+  TrackEventRequest,
+  WithDatesIf
+} from '../models/types';
+import { EventBuffer } from '../events/buffer';
+import { AutoTracker } from '../events/auto-tracker';
+import { Session } from '../session/session';
+import { decodeTrackedEvent, decodeWith } from '../decode/decoders';
 
 /**
  * Predefined event names for SDK views
@@ -19,9 +31,18 @@ export const SDKEvents = {
 
 /**
  * API for event tracking and analytics
+ *
+ * `TDates` is true when the client decodes with `dates: true`; `TTracked` is
+ * what `track` resolves with (null for clients that buffer events).
  */
-export class EventsApi {
-  constructor(private http: HttpClient) {}
+export class EventsApi<TDates extends boolean = false, TTracked = WithDatesIf<TrackedEvent, TDates>> {
+  constructor(
+    private http: HttpClient,
+    private buffer: EventBuffer | null = null,
+    private decode: DecodeOptions | null = null,
+    private tracker: AutoTracker | null = null,
+    private session: Session | null = null
+  ) {}
 
   /**
    * Track a custom event
@@ -34,9 +55,16 @@ export class EventsApi {
    * - `submit_feedback` - User opened submit form
    * - Custom events for your app
    *
-   * @param request - Event details
-   * @returns The tracked event
+   * With the `eventBuffer` option enabled, the event is buffered and sent in
+   * a batch later: the promise resolves with null right away, `callOptions`
+   * are not used, and batches that can't be sent go to the buffer's
+   * `onError`. Otherwise the event is sent right away.
+   *
+   * @param request - Event details; userId defaults to the identified user
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
+   * @returns The tracked event, or null when buffered
    * @throws ValidationError if eventName or userId is empty
+   * @throws QueuedError if the client is offline and the request was queued for replay
    *
    * @example
    * ```ts
@@ -73,12 +101,141 @@ export class EventsApi {
    * });
    * ```
    */
-  async track(request: TrackEventRequest): Promise<TrackedEvent> {
-    return this.http.post<TrackedEvent>('/events/track', {
+  async track(request: TrackEventRequest, callOptions?: CallOptions): Promise<TTracked> {
+    const body: TrackEventRequest = {
       eventName: request.eventName,
-      userId: request.userId,
+      userId: request.userId || this.session?.getUserId(),
       properties: request.properties
+    };
+    if (this.buffer) {
+      this.buffer.add(body);
+      return null as TTracked;
+    }
+
+    const event = await this.http.post<unknown>('/events/track', body, {
+      ...callOptions,
+      queueable: true,
+      operation: 'events.track'
     });
+    return decodeWith(decodeTrackedEvent, event, this.decode) as TTracked;
+  }
+
+  /**
+   * Track an event without waiting for it
+   *
+   * Like `track`, buffered when the `eventBuffer` option is enabled, but
+   * failures are never thrown, so it suits fire-and-forget tracking without
+   * a buffer too.
+   *
+   * @param request - Event details; userId defaults to the identified user
+   *
+   * @example
+   * ```ts
+   * feedbackKit.events.enqueue({ eventName: 'feedback_list', userId: 'user_12345' });
+   * ```
+   */
+  enqueue(request: TrackEventRequest): void {
+    const event: TrackEventRequest = {
+      eventName: request.eventName,
+      userId: request.userId || this.session?.getUserId(),
+      properties: request.properties
+    };
+    this.track(event).catch(() => undefined);
+  }
+
+  /**
+   * Track several events
+   *
+   * Not a single request: the API has no batch endpoint, so each event is
+   * sent with its own `POST /events/track`, at most `concurrency` at a time.
+   * With an idempotency key, each event gets a key derived from it
+   * (`<key>.<index>`), so re-sending the same batch doesn't count events
+   * that were already tracked.
+   *
+   * @param requests - Events to track
+   * @param callOptions - Per-call options; `keepalive` lets the requests outlive the page
+   * @returns The tracked events, in request order
+   * @throws The first error if any event fails, once every request has settled
+   *
+   * @example
+   * ```ts
+   * await feedbackKit.events.trackBatch([
+   *   { eventName: SDKEvents.FeedbackList, userId: 'user_12345' },
+   *   { eventName: SDKEvents.FeedbackDetail, userId: 'user_12345' }
+   * ]);
+   * ```
+   */
+  async trackBatch(
+    requests: TrackEventRequest[],
+    callOptions: TrackBatchOptions = {}
+  ): Promise<WithDatesIf<TrackedEvent, TDates>[]> {
+    const { idempotencyKey, concurrency = 4, ...options } = callOptions;
+    const results: PromiseSettledResult<unknown>[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < requests.length) {
+        const index = next++;
+        const request = requests[index];
+        results[index] = await this.http.post<unknown>('/events/track', {
+          eventName: request.eventName,
+          userId: request.userId || this.session?.getUserId(),
+          properties: request.properties
+        }, {
+          ...options,
+          idempotencyKey: idempotencyKey && `${idempotencyKey}.${index}`,
+          operation: 'events.trackBatch'
+        }).then(
+          (value): PromiseSettledResult<unknown> => ({ status: 'fulfilled', value }),
+          (reason): PromiseSettledResult<unknown> => ({ status: 'rejected', reason })
+        );
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), requests.length) }, worker));
+
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
+    return results.map((result) =>
+      decodeWith(decodeTrackedEvent, (result as PromiseFulfilledResult<unknown>).value, this.decode)
+    ) as WithDatesIf<TrackedEvent, TDates>[];
+  }
+
+  /**
+   * Track an SDK view event from a UI entry point
+   *
+   * Goes through the `autoTrack` settings (sampling, opt-out, `enrich`) and
+   * uses the current user ID. Does nothing unless `autoTrack` is enabled.
+   *
+   * @param eventName - The SDK event
+   * @param properties - Event properties
+   *
+   * @example
+   * ```ts
+   * function openSubmitForm() {
+   *   feedbackKit.events.trackView(SDKEvents.SubmitFeedback, { source: 'settings' });
+   *   showForm();
+   * }
+   * ```
+   */
+  trackView(eventName: AutoTrackEventName, properties?: Record<string, unknown>): void {
+    this.tracker?.record(eventName, properties);
+  }
+
+  /**
+   * Send all buffered events now
+   *
+   * Resolves immediately when event buffering is disabled.
+   *
+   * @example
+   * ```ts
+   * // Before navigating away in a single-page app
+   * await feedbackKit.events.flush();
+   * ```
+   */
+  async flush(): Promise<void> {
+    await this.buffer?.flush();
   }
 }
 
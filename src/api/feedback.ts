@@ -2,26 +2,56 @@
  * Feedback API
  */
 
-import { HttpClient } from '../utils/http';
+import { HttpClient, RequestExtras } from '../utils/http';
+import { raceSignal } from '../utils/abort';
+import { assertValid, validateCreateFeedback } from '../utils/validation';
+import { ResponseCache } from '../cache/response-cache';
+import { AutoTracker } from '../events/auto-tracker';
+import { Session } from '../session/session';
+import { decodeFeedback, decodeListWith, decodeWith } from '../decode/decoders';
 import {
+  CallOptions,
+  DecodeOptions,
   Feedback,
   CreateFeedbackRequest,
   ListFeedbackOptions,
   FeedbackStatus,
-  FeedbackCategory
+  FeedbackCategory,
+  FeedbackSort,
+  Page,
+  WithDatesIf
 } from '../models/types';
 
+/**
+ * Page size used by `iterate` when no limit is given
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
 /**
  * API for managing feedback items
+ *
+ * `TDates` is true when the client decodes with `dates: true`, so returned
+ * items carry Date objects.
  */
-export class FeedbackApi {
-  constructor(private http: HttpClient) {}
+export class FeedbackApi<TDates extends boolean = false> {
+  constructor(
+    private http: HttpClient,
+    private cache: ResponseCache | null = null,
+    private decode: DecodeOptions | null = null,
+    private tracker: AutoTracker | null = null,
+    private session: Session | null = null
+  ) {}
 
   /**
-   * List all feedback for the project
+   * List feedback for the project
+   *
+   * Without `limit` the whole project is returned; with `limit` only the
+   * requested page is returned (use `listPage` to get its cursor).
+   * Served from the response cache when the `cache` option is enabled.
    *
-   * @param options - Filter and pagination options
-   * @returns Array of feedback items sorted by vote count (descending)
+   * @param options - Filter, sorting and pagination options
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
+   * @returns Array of feedback items, sorted by vote count (descending) unless `sort` is given
    *
    * @example
    * ```ts
@@ -31,25 +61,92 @@ export class FeedbackApi {
    * // Filter by status
    * const pending = await feedbackKit.feedback.list({ status: FeedbackStatus.Pending });
    *
+   * // Filter by several statuses
+   * const planned = await feedbackKit.feedback.list({
+   *   status: [FeedbackStatus.Approved, FeedbackStatus.InProgress]
+   * });
+   *
    * // Filter by category
    * const bugs = await feedbackKit.feedback.list({ category: FeedbackCategory.BugReport });
    *
+   * // Newest first
+   * const newest = await feedbackKit.feedback.list({ sort: FeedbackSort.Newest });
+   *
    * // Include merged items
    * const withMerged = await feedbackKit.feedback.list({ includeMerged: true });
    * ```
    */
-  async list(options?: ListFeedbackOptions): Promise<Feedback[]> {
-    return this.http.get<Feedback[]>('/feedbacks', {
-      status: options?.status,
-      category: options?.category,
-      includeMerged: options?.includeMerged
-    });
+  async list(options?: ListFeedbackOptions, callOptions?: CallOptions): Promise<WithDatesIf<Feedback, TDates>[]> {
+    const page = await this.trackedPage(options, callOptions, 'feedback.list');
+    return page.items as WithDatesIf<Feedback, TDates>[];
+  }
+
+  /**
+   * Fetch a single page of feedback
+   *
+   * Servers that don't paginate return everything as a single page with a
+   * null `nextCursor`.
+   *
+   * @param options - Filter, sorting and pagination options
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
+   * @returns The page of feedback items and the cursor for the next page
+   *
+   * @example
+   * ```ts
+   * const first = await feedbackKit.feedback.listPage({ limit: 20, sort: FeedbackSort.Newest });
+   * if (first.nextCursor) {
+   *   const second = await feedbackKit.feedback.listPage({
+   *     limit: 20,
+   *     sort: FeedbackSort.Newest,
+   *     cursor: first.nextCursor
+   *   });
+   * }
+   * ```
+   */
+  listPage(
+    options?: ListFeedbackOptions,
+    callOptions?: CallOptions
+  ): Promise<Page<WithDatesIf<Feedback, TDates>>> {
+    return this.trackedPage(options, callOptions, 'feedback.listPage') as Promise<Page<WithDatesIf<Feedback, TDates>>>;
+  }
+
+  /**
+   * Iterate over all matching feedback, fetching pages as needed
+   *
+   * @param options - Filter and sorting options; `limit` sets the page size (defaults to 50)
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
+   *
+   * @example
+   * ```ts
+   * for await (const feedback of feedbackKit.feedback.iterate({ status: FeedbackStatus.Approved })) {
+   *   console.log(feedback.title);
+   * }
+   * ```
+   */
+  async *iterate(
+    options?: Omit<ListFeedbackOptions, 'cursor'>,
+    callOptions?: CallOptions
+  ): AsyncGenerator<WithDatesIf<Feedback, TDates>, void, undefined> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.fetchPage(
+        { ...options, limit: options?.limit ?? DEFAULT_PAGE_SIZE, cursor },
+        callOptions,
+        'feedback.iterate'
+      );
+      yield* page.items as WithDatesIf<Feedback, TDates>[];
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
   }
 
   /**
    * Get a single feedback item by ID
    *
+   * Served from the response cache when the `cache` option is enabled.
+   *
    * @param feedbackId - The feedback UUID
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns The feedback item
    * @throws NotFoundError if feedback doesn't exist
    *
@@ -59,8 +156,21 @@ export class FeedbackApi {
    * console.log(feedback.title, feedback.voteCount);
    * ```
    */
-  async get(feedbackId: string): Promise<Feedback> {
-    return this.http.get<Feedback>(`/feedbacks/${feedbackId}`);
+  async get(feedbackId: string, callOptions?: CallOptions): Promise<WithDatesIf<Feedback, TDates>> {
+    const path = `/feedbacks/${feedbackId}`;
+    const feedback = await this.cached(path, undefined, callOptions, async (extras) =>
+      decodeWith(
+        decodeFeedback,
+        await this.http.get<unknown>(path, undefined, { ...extras, operation: 'feedback.get' }),
+        this.decode
+      )
+    );
+    this.tracker?.record('feedback_detail', {
+      feedbackId,
+      status: feedback.status,
+      category: feedback.category
+    });
+    return feedback as WithDatesIf<Feedback, TDates>;
   }
 
   /**
@@ -70,10 +180,12 @@ export class FeedbackApi {
    * Triggers notifications to project members and configured integrations.
    *
    * @param request - The feedback to create
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns The created feedback item
-   * @throws ValidationError if required fields are missing
+   * @throws ValidationError without a request if any field is invalid (see `fields`)
    * @throws PaymentRequiredError if feedback limit is exceeded (Free tier)
    * @throws ForbiddenError if project is archived
+   * @throws QueuedError if the client is offline and the request was queued for replay
    *
    * @example
    * ```ts
@@ -86,19 +198,109 @@ export class FeedbackApi {
    * });
    * ```
    */
-  async create(request: CreateFeedbackRequest): Promise<Feedback> {
-    return this.http.post<Feedback>('/feedbacks', {
+  async create(request: CreateFeedbackRequest, callOptions?: CallOptions): Promise<WithDatesIf<Feedback, TDates>> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    const userEmail = request.userEmail ?? this.session?.getEmail();
+    assertValid(validateCreateFeedback({ ...request, userId, userEmail }));
+
+    const response = await this.http.post<unknown>('/feedbacks', {
       title: request.title,
       description: request.description,
       category: request.category,
-      userId: request.userId,
-      userEmail: request.userEmail,
+      userId,
+      userEmail,
       subscribeToMailingList: request.subscribeToMailingList,
       mailingListEmailTypes: request.mailingListEmailTypes
+    }, { ...callOptions, queueable: true, operation: 'feedback.create' });
+    const feedback = decodeWith(decodeFeedback, response, this.decode);
+
+    // Lists no longer include everything; refetch them on next read
+    this.cache?.invalidate('/feedbacks');
+    return feedback as WithDatesIf<Feedback, TDates>;
+  }
+
+  /**
+   * Fetch a page and track a view of the first one
+   */
+  private async trackedPage(
+    options: ListFeedbackOptions | undefined,
+    callOptions: CallOptions | undefined,
+    operation: string
+  ): Promise<Page<Feedback>> {
+    const page = await this.fetchPage(options, callOptions, operation);
+    if (!options?.cursor) {
+      this.tracker?.record('feedback_list', {
+        status: options?.status,
+        category: options?.category,
+        sort: options?.sort,
+        includeMerged: options?.includeMerged
+      });
+    }
+    return page;
+  }
+
+  /**
+   * Fetch a page without tracking a view
+   */
+  private fetchPage(
+    options: ListFeedbackOptions | undefined,
+    callOptions: CallOptions | undefined,
+    operation: string
+  ): Promise<Page<Feedback>> {
+    const params = {
+      status: options?.status,
+      category: options?.category,
+      includeMerged: options?.includeMerged,
+      sort: options?.sort,
+      limit: options?.limit,
+      cursor: options?.cursor
+    };
+    return this.cached('/feedbacks', params, callOptions, async (extras) => {
+      const page = toPage(
+        await this.http.get<Feedback[] | Page<Feedback>>('/feedbacks', params, { ...extras, operation })
+      );
+      return this.decode ? { ...page, items: decodeListWith(decodeFeedback, page.items, this.decode) } : page;
     });
   }
+
+  /**
+   * Read through the response cache when it is enabled
+   *
+   * A cached fetch is shared between callers, so it runs without the
+   * caller's signal; aborting only stops this caller from waiting for it.
+   */
+  private cached<T>(
+    path: string,
+    params: Record<string, unknown> | undefined,
+    callOptions: CallOptions | undefined,
+    fetcher: (extras?: RequestExtras) => Promise<T>
+  ): Promise<T> {
+    if (!this.cache) {
+      return fetcher(callOptions);
+    }
+
+    const { signal, ...extras } = callOptions ?? {};
+    return raceSignal(
+      this.cache.get(this.http.getUserId() ?? '', path, params, () => fetcher(extras)),
+      signal
+    );
+  }
+}
+
+/**
+ * Normalize a list response into a page
+ */
+function toPage(response: Feedback[] | Page<Feedback>): Page<Feedback> {
+  if (Array.isArray(response)) {
+    return { items: response, nextCursor: null };
+  }
+  return {
+    items: response.items,
+    nextCursor: response.nextCursor ?? null,
+    total: response.total
+  };
 }
 
 // Re-export types for convenience
-export type { Feedback, CreateFeedbackRequest, ListFeedbackOptions };
-export { FeedbackStatus, FeedbackCategory };
+export type { Feedback, CreateFeedbackRequest, ListFeedbackOptions, Page };
+export { FeedbackStatus, FeedbackCategory, FeedbackSort };
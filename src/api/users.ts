@@ -3,13 +3,22 @@
  */
 
 import { HttpClient } from '../utils/http';
-import { SDKUser, RegisterUserRequest } from '../models/types';
+import { decodeSDKUser, decodeWith } from '../decode/decoders';
+import { assertValid, validateAlias, validateRegisterUser } from '../utils/validation';
+import { Session } from '../session/session';
+import { CallOptions, DecodeOptions, SDKUser, RegisterUserRequest, AliasUserRequest, WithDatesIf } from '../models/types';
 
 /**
  * API for SDK user registration and tracking
+ *
+ * `TDates` is true when the client decodes with `dates: true`.
  */
-export class UsersApi {
-  constructor(private http: HttpClient) {}
+export class UsersApi<TDates extends boolean = false> {
+  constructor(
+    private http: HttpClient,
+    private decode: DecodeOptions | null = null,
+    private session: Session | null = null
+  ) {}
 
   /**
    * Register or update an SDK user
@@ -17,9 +26,10 @@ export class UsersApi {
    * Use this to track user activity and associate MRR (Monthly Recurring Revenue).
    * If the user already exists, their `lastSeenAt` timestamp and MRR will be updated.
    *
-   * @param request - User registration details
+   * @param request - User registration details; userId and mrr default to the identified user
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns The registered/updated user
-   * @throws ValidationError if userId is empty
+   * @throws ValidationError without a request if userId is empty or mrr is negative or not finite
    *
    * @example
    * ```ts
@@ -41,13 +51,50 @@ export class UsersApi {
    * });
    * ```
    */
-  async register(request: RegisterUserRequest): Promise<SDKUser> {
-    return this.http.post<SDKUser>('/users/register', {
-      userId: request.userId,
-      mrr: request.mrr
+  async register(request: RegisterUserRequest = {}, callOptions?: CallOptions): Promise<WithDatesIf<SDKUser, TDates>> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    const mrr = request.mrr ?? (userId === this.session?.getUserId() ? this.session.getMrr() : undefined);
+    assertValid(validateRegisterUser({ userId, mrr }));
+
+    const user = await this.http.post<unknown>('/users/register', { userId, mrr }, {
+      ...callOptions,
+      operation: 'users.register'
+    });
+    return decodeWith(decodeSDKUser, user, this.decode) as WithDatesIf<SDKUser, TDates>;
+  }
+
+  /**
+   * Merge a previous user ID into a user
+   *
+   * Votes, comments, feedback, events and the SDK user record of
+   * `previousId` are moved to `userId`, e.g. when an anonymous visitor signs in.
+   * Requires a server that supports `POST /users/alias`; others respond
+   * with a `NotFoundError`.
+   *
+   * @param request - The previous ID; userId defaults to the identified user
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
+   * @returns The merged user
+   * @throws ValidationError without a request if either ID is empty or both are the same
+   *
+   * @example
+   * ```ts
+   * await feedbackKit.users.alias({
+   *   previousId: 'anon_6f1c2d8e',
+   *   userId: 'user_12345'
+   * });
+   * ```
+   */
+  async alias(request: AliasUserRequest, callOptions?: CallOptions): Promise<WithDatesIf<SDKUser, TDates>> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    assertValid(validateAlias({ previousId: request.previousId, userId }));
+
+    const user = await this.http.post<unknown>('/users/alias', { previousId: request.previousId, userId }, {
+      ...callOptions,
+      operation: 'users.alias'
     });
+    return decodeWith(decodeSDKUser, user, this.decode) as WithDatesIf<SDKUser, TDates>;
   }
 }
 
 // Re-export types for convenience
-export type { SDKUser, RegisterUserRequest };
+export type { SDKUser, RegisterUserRequest, AliasUserRequest };
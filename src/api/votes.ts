@@ -3,13 +3,22 @@
  */
 
 import { HttpClient } from '../utils/http';
-import { VoteRequest, UnvoteRequest, VoteResponse } from '../models/types';
+import { ResponseCache } from '../cache/response-cache';
+import { decodeVoteResponse, decodeWith } from '../decode/decoders';
+import { assertValid, validateVote } from '../utils/validation';
+import { Session } from '../session/session';
+import { CallOptions, DecodeConfig, VoteRequest, UnvoteRequest, VoteResponse } from '../models/types';
 
 /**
  * API for voting on feedback items
  */
 export class VotesApi {
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private cache: ResponseCache | null = null,
+    private decode: DecodeConfig | null = null,
+    private session: Session | null = null
+  ) {}
 
   /**
    * Vote for a feedback item
@@ -26,11 +35,14 @@ export class VotesApi {
    * - Voter notifications require Team tier subscription
    *
    * @param feedbackId - The feedback UUID to vote for
-   * @param request - Vote details including userId and optional email
+   * @param request - Vote details; userId and email default to the identified user
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns Updated vote count and hasVoted state
+   * @throws ValidationError without a request if an ID is empty or the email is malformed
    * @throws NotFoundError if feedback doesn't exist
    * @throws ForbiddenError if voting is not allowed
    * @throws ConflictError if user has already voted
+   * @throws QueuedError if the client is offline and the request was queued for replay
    *
    * @example
    * ```ts
@@ -47,23 +59,34 @@ export class VotesApi {
    * });
    * ```
    */
-  async vote(feedbackId: string, request: VoteRequest): Promise<VoteResponse> {
-    return this.http.post<VoteResponse>(`/feedbacks/${feedbackId}/votes`, {
-      userId: request.userId,
-      email: request.email,
+  async vote(feedbackId: string, request: VoteRequest = {}, callOptions?: CallOptions): Promise<VoteResponse> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    const email = request.email ?? this.session?.getEmail();
+    assertValid(validateVote(feedbackId, { ...request, userId, email }));
+
+    const data = await this.http.post<unknown>(`/feedbacks/${feedbackId}/votes`, {
+      userId,
+      email,
       notifyStatusChange: request.notifyStatusChange ?? false,
       subscribeToMailingList: request.subscribeToMailingList,
       mailingListEmailTypes: request.mailingListEmailTypes
-    });
+    }, { ...callOptions, queueable: true, operation: 'votes.vote' });
+    const response = decodeWith(decodeVoteResponse, data, this.decode);
+
+    this.updateCache(response, userId);
+    return response;
   }
 
   /**
    * Remove a vote from a feedback item
    *
    * @param feedbackId - The feedback UUID to remove vote from
-   * @param request - Unvote details including userId
+   * @param request - Unvote details; userId defaults to the identified user
+   * @param callOptions - Per-call signal, timeout, headers and idempotency key
    * @returns Updated vote count and hasVoted state
+   * @throws ValidationError without a request if an ID is empty
    * @throws NotFoundError if feedback doesn't exist
+   * @throws QueuedError if the client is offline and the request was queued for replay
    *
    * @example
    * ```ts
@@ -73,10 +96,29 @@ export class VotesApi {
    * console.log(result.hasVoted); // false
    * ```
    */
-  async unvote(feedbackId: string, request: UnvoteRequest): Promise<VoteResponse> {
-    return this.http.delete<VoteResponse>(`/feedbacks/${feedbackId}/votes`, {
-      userId: request.userId
-    });
+  async unvote(feedbackId: string, request: UnvoteRequest = {}, callOptions?: CallOptions): Promise<VoteResponse> {
+    const userId = request.userId || this.session?.getUserId() || '';
+    assertValid(validateVote(feedbackId, { userId }));
+
+    const data = await this.http.delete<unknown>(`/feedbacks/${feedbackId}/votes`, {
+      userId
+    }, { ...callOptions, queueable: true, operation: 'votes.unvote' });
+    const response = decodeWith(decodeVoteResponse, data, this.decode);
+
+    this.updateCache(response, userId);
+    return response;
+  }
+
+  /**
+   * Apply a vote result to cached feedback
+   */
+  private updateCache(response: VoteResponse, userId: string): void {
+    this.cache?.patchFeedback(
+      response.feedbackId,
+      { voteCount: response.voteCount },
+      { hasVoted: response.hasVoted },
+      userId
+    );
   }
 }
 
@@ -0,0 +1,593 @@
+/**
+ * Feedback Board Web Component
+ *
+ * A framework-free `<feedbackkit-board>` custom element: feedback list with
+ * filters, detail with comments, voting and a submit form.
+ */
+
+import { FeedbackKit } from '../client';
+import { SDKEvents } from '../api/events';
+import { canVote } from '../store/feedback-store';
+import {
+  Comment,
+  EventBufferOption,
+  Feedback,
+  FeedbackCategory,
+  FeedbackStatus,
+  FieldError
+} from '../models/types';
+
+/**
+ * The `<feedbackkit-board>` element
+ */
+export interface FeedbackKitBoardElement extends HTMLElement {
+  /** Client used for all requests; created from the attributes when not set */
+  client: FeedbackKit<false, EventBufferOption> | null;
+  /** Reload the feedback list */
+  refresh(): Promise<void>;
+}
+
+type View = 'list' | 'detail' | 'submit';
+
+/**
+ * Identifies a control across renders, to keep it focused
+ */
+interface ControlKey {
+  action?: string;
+  id?: string;
+  filter?: string;
+  name?: string;
+}
+
+interface BoardState {
+  view: View;
+  items: Feedback[];
+  status: string;
+  category: string;
+  selected: Feedback | null;
+  comments: Comment[];
+  loading: boolean;
+  /** Shown in place of the list when it can't be loaded */
+  error: string;
+  /** Announced to screen readers */
+  message: string;
+  /** Field errors of the submit form */
+  errors: FieldError[];
+  /** Submit form values, kept across renders */
+  draft: Record<string, string>;
+  /** IDs of items with a vote in flight */
+  voting: Set<string>;
+}
+
+const STATUS_LABELS: Record<FeedbackStatus, string> = {
+  [FeedbackStatus.Pending]: 'Pending',
+  [FeedbackStatus.Approved]: 'Approved',
+  [FeedbackStatus.InProgress]: 'In Progress',
+  [FeedbackStatus.TestFlight]: 'TestFlight',
+  [FeedbackStatus.Completed]: 'Completed',
+  [FeedbackStatus.Rejected]: 'Rejected',
+  [FeedbackStatus.Unknown]: 'Unknown'
+};
+
+const CATEGORY_LABELS: Record<FeedbackCategory, string> = {
+  [FeedbackCategory.FeatureRequest]: 'Feature Request',
+  [FeedbackCategory.BugReport]: 'Bug Report',
+  [FeedbackCategory.Improvement]: 'Improvement',
+  [FeedbackCategory.Other]: 'Other',
+  [FeedbackCategory.Unknown]: 'Other'
+};
+
+const STYLES = `
+:host {
+  display: block;
+  font-family: var(--feedbackkit-font, system-ui, sans-serif);
+  color: var(--feedbackkit-text, #1f2328);
+  background: var(--feedbackkit-background, #ffffff);
+  border-radius: var(--feedbackkit-radius, 8px);
+}
+* { box-sizing: border-box; }
+.toolbar, .actions { display: flex; gap: 8px; flex-wrap: wrap; align-items: end; margin-bottom: 12px; }
+ul { list-style: none; margin: 0; padding: 0; }
+li.item { display: flex; gap: 12px; align-items: center; padding: 8px 0; border-bottom: 1px solid var(--feedbackkit-border, #d0d7de); }
+h2 { font-size: 1.25em; margin: 0 0 8px; }
+h2:focus { outline: none; }
+label { display: flex; flex-direction: column; gap: 4px; font-size: 0.875em; }
+input, textarea, select { font: inherit; padding: 6px 8px; border: 1px solid var(--feedbackkit-border, #d0d7de); border-radius: var(--feedbackkit-radius, 8px); }
+button { font: inherit; cursor: pointer; padding: 6px 12px; border-radius: var(--feedbackkit-radius, 8px); border: 1px solid var(--feedbackkit-border, #d0d7de); background: transparent; color: inherit; }
+button:focus-visible, input:focus-visible, textarea:focus-visible, select:focus-visible { outline: 2px solid var(--feedbackkit-accent, #0969da); outline-offset: 2px; }
+button.primary { background: var(--feedbackkit-accent, #0969da); border-color: var(--feedbackkit-accent, #0969da); color: var(--feedbackkit-accent-text, #ffffff); }
+button.link { border: none; padding: 0; text-align: left; text-decoration: underline; }
+button.vote { min-width: 56px; }
+button.vote[aria-pressed="true"] { background: var(--feedbackkit-accent, #0969da); color: var(--feedbackkit-accent-text, #ffffff); }
+button:disabled, button[aria-disabled="true"] { cursor: not-allowed; opacity: 0.5; }
+.badge { font-size: 0.75em; padding: 2px 8px; border-radius: 999px; background: var(--feedbackkit-badge, #eaeef2); }
+.muted { color: var(--feedbackkit-muted, #656d76); font-size: 0.875em; }
+.error { color: var(--feedbackkit-error, #cf222e); font-size: 0.875em; }
+.visually-hidden { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+`;
+
+/**
+ * Create the element class
+ *
+ * The class extends HTMLElement, so it can only be created where the DOM
+ * exists; `defineFeedbackKitBoard` calls this lazily.
+ */
+export function createFeedbackKitBoardClass(): { new (): FeedbackKitBoardElement } {
+  return class FeedbackKitBoard extends HTMLElement implements FeedbackKitBoardElement {
+    static get observedAttributes(): string[] {
+      return ['api-key', 'base-url', 'user-id'];
+    }
+
+    private ownClient: FeedbackKit | null = null;
+    /** Why a client couldn't be created from the attributes (e.g. a malformed key) */
+    private clientError = '';
+    private explicitClient: FeedbackKit<false, EventBufferOption> | null = null;
+    private root: ShadowRoot;
+    /** Incremented by every navigation, so superseded loads are dropped */
+    private navigation = 0;
+    private state: BoardState = {
+      view: 'list',
+      items: [],
+      status: '',
+      category: '',
+      selected: null,
+      comments: [],
+      loading: false,
+      error: '',
+      message: '',
+      errors: [],
+      draft: {},
+      voting: new Set()
+    };
+
+    constructor() {
+      super();
+      this.root = this.attachShadow({ mode: 'open' });
+      this.root.addEventListener('click', (event) => this.onClick(event));
+      this.root.addEventListener('change', (event) => this.onChange(event));
+      this.root.addEventListener('submit', (event) => this.onSubmit(event));
+    }
+
+    get client(): FeedbackKit<false, EventBufferOption> | null {
+      if (this.explicitClient) {
+        return this.explicitClient;
+      }
+      const apiKey = this.getAttribute('api-key');
+      if (!this.ownClient && !this.clientError && apiKey) {
+        try {
+          this.ownClient = new FeedbackKit({
+            apiKey,
+            baseUrl: this.getAttribute('base-url') ?? undefined,
+            userId: this.getAttribute('user-id') ?? undefined,
+            autoTrack: true
+          });
+        } catch (error) {
+          this.clientError = errorMessage(error);
+        }
+      }
+      return this.ownClient;
+    }
+
+    set client(client: FeedbackKit<false, EventBufferOption> | null) {
+      this.explicitClient = client;
+      if (this.isConnected) {
+        void this.refresh();
+      }
+    }
+
+    connectedCallback(): void {
+      this.state.status = this.getAttribute('status') ?? '';
+      this.state.category = this.getAttribute('category') ?? '';
+      void this.refresh();
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+      if (oldValue === newValue) {
+        return;
+      }
+      if (name === 'user-id') {
+        this.ownClient?.setUserId(newValue ?? undefined);
+      } else {
+        this.ownClient = null;
+        this.clientError = '';
+      }
+      if (this.isConnected) {
+        void this.refresh();
+      }
+    }
+
+    async refresh(): Promise<void> {
+      const client = this.client;
+      if (!client) {
+        const error = this.clientError;
+        this.update({
+          view: 'list',
+          items: [],
+          error,
+          message: error || 'Set the api-key attribute or the client property to load feedback.'
+        });
+        return;
+      }
+
+      const navigation = ++this.navigation;
+      this.update({ view: 'list', loading: true, error: '', message: 'Loading feedback…' });
+      try {
+        const items = await client.feedback.list({
+          status: (this.state.status || undefined) as FeedbackStatus | undefined,
+          category: (this.state.category || undefined) as FeedbackCategory | undefined
+        });
+        if (navigation === this.navigation) {
+          this.update({ items, loading: false, message: `${items.length} feedback items` });
+        }
+      } catch (error) {
+        if (navigation === this.navigation) {
+          this.update({ loading: false, error: errorMessage(error), message: errorMessage(error) });
+        }
+      }
+    }
+
+    private get userId(): string | undefined {
+      return this.client?.getUserId();
+    }
+
+    private async open(feedbackId: string): Promise<void> {
+      const client = this.client;
+      const selected = this.state.items.find((item) => item.id === feedbackId) ?? null;
+      if (!client || !selected) {
+        return;
+      }
+
+      const navigation = ++this.navigation;
+      this.update({ view: 'detail', selected, comments: [], message: 'Loading comments…' });
+      try {
+        const [feedback, comments] = await Promise.all([
+          client.feedback.get(feedbackId),
+          client.comments.list(feedbackId)
+        ]);
+        if (navigation === this.navigation) {
+          this.replaceItem(feedback);
+          this.update({ comments, message: `${comments.length} comments` });
+        }
+      } catch (error) {
+        if (navigation === this.navigation) {
+          this.update({ message: errorMessage(error) });
+        }
+      }
+    }
+
+    private async toggleVote(feedbackId: string): Promise<void> {
+      const client = this.client;
+      const userId = this.userId;
+      const item = this.state.items.find((candidate) => candidate.id === feedbackId);
+      if (!client || !userId || !item || this.state.voting.has(feedbackId)) {
+        return;
+      }
+
+      // Show the vote immediately; rolled back if the request fails
+      const hasVoted = !item.hasVoted;
+      this.state.voting.add(feedbackId);
+      this.replaceItem({ ...item, hasVoted, voteCount: Math.max(0, item.voteCount + (hasVoted ? 1 : -1)) });
+      this.render();
+      try {
+        const result = hasVoted
+          ? await client.votes.vote(feedbackId, { userId })
+          : await client.votes.unvote(feedbackId, { userId });
+        this.replaceItem({ ...this.itemById(feedbackId, item), voteCount: result.voteCount, hasVoted: result.hasVoted });
+        this.state.message = result.hasVoted ? `Voted for ${item.title}` : `Vote removed from ${item.title}`;
+        this.emit('feedbackkit-vote', result);
+      } catch (error) {
+        // A queued vote is replayed later, so it stays shown
+        if (!isQueued(error)) {
+          this.replaceItem({ ...this.itemById(feedbackId, item), voteCount: item.voteCount, hasVoted: item.hasVoted });
+        }
+        this.state.message = errorMessage(error);
+      } finally {
+        this.state.voting.delete(feedbackId);
+        this.render();
+      }
+    }
+
+    private async submit(form: HTMLFormElement): Promise<void> {
+      const client = this.client;
+      const userId = this.userId;
+      const data = new FormData(form);
+      const draft: Record<string, string> = {};
+      data.forEach((value, key) => {
+        draft[key] = String(value);
+      });
+
+      if (!client || !userId) {
+        this.update({ draft, message: 'Set a user ID to submit feedback.' });
+        return;
+      }
+      if (this.state.loading) {
+        return;
+      }
+
+      this.update({ draft, errors: [], loading: true, message: 'Submitting…' });
+      try {
+        const feedback = await client.feedback.create({
+          title: draft.title ?? '',
+          description: draft.description ?? '',
+          category: draft.category as FeedbackCategory,
+          userId,
+          userEmail: draft.email || undefined
+        });
+        this.emit('feedbackkit-submit', feedback);
+        this.update({ draft: {}, loading: false, message: 'Thanks for your feedback!' });
+        await this.refresh();
+      } catch (error) {
+        const fields = fieldErrors(error);
+        this.update(
+          { errors: fields, loading: false, message: fields.length > 0 ? 'Please fix the highlighted fields.' : errorMessage(error) },
+          fields.length > 0
+        );
+      }
+    }
+
+    private onClick(event: Event): void {
+      const target = (event.target as Element).closest<HTMLElement>('[data-action]');
+      const id = target?.dataset.id;
+      switch (target?.dataset.action) {
+        case 'open':
+          if (id) void this.open(id);
+          break;
+        case 'vote':
+          if (id) void this.toggleVote(id);
+          break;
+        case 'new':
+          this.navigation++;
+          this.update({ view: 'submit', errors: [], message: '' });
+          this.client?.events.trackView(SDKEvents.SubmitFeedback);
+          break;
+        case 'back':
+          this.navigation++;
+          this.update({ view: 'list', selected: null, errors: [], loading: false, message: '' });
+          break;
+      }
+    }
+
+    private onChange(event: Event): void {
+      const target = event.target as HTMLSelectElement;
+      if (target.dataset.filter === 'status' || target.dataset.filter === 'category') {
+        this.state[target.dataset.filter] = target.value;
+        void this.refresh();
+      }
+    }
+
+    private onSubmit(event: Event): void {
+      event.preventDefault();
+      void this.submit(event.target as HTMLFormElement);
+    }
+
+    private itemById(feedbackId: string, fallback: Feedback): Feedback {
+      return this.state.items.find((candidate) => candidate.id === feedbackId) ?? fallback;
+    }
+
+    private replaceItem(item: Feedback): void {
+      this.state.items = this.state.items.map((candidate) => (candidate.id === item.id ? item : candidate));
+      if (this.state.selected?.id === item.id) {
+        this.state.selected = item;
+      }
+    }
+
+    private emit(type: string, detail: unknown): void {
+      this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+    }
+
+    /**
+     * Apply state changes and render
+     *
+     * Focus moves to the heading when the view changes or `moveFocus` is set.
+     */
+    private update(changes: Partial<BoardState>, moveFocus = false): void {
+      const viewChanged = changes.view !== undefined && changes.view !== this.state.view;
+      this.state = { ...this.state, ...changes };
+      this.render();
+      if (moveFocus || viewChanged) {
+        this.root.querySelector<HTMLElement>('[data-focus]')?.focus();
+      }
+    }
+
+    /**
+     * Re-render the shadow root, keeping the focused control focused
+     */
+    private render(): void {
+      const focused = controlKey(this.root.activeElement);
+      const { view } = this.state;
+      const body = view === 'detail'
+        ? renderDetail(this.state, this.userId)
+        : view === 'submit'
+          ? renderSubmit(this.state)
+          : renderList(this.state, this.userId);
+
+      this.root.innerHTML = `<style>${STYLES}</style>
+<div class="board" aria-busy="${this.state.loading}">
+${body}
+<p class="visually-hidden" role="status" aria-live="polite">${escapeHtml(this.state.message)}</p>
+</div>`;
+
+      if (focused) {
+        Array.from(this.root.querySelectorAll<HTMLElement>('[data-action], [data-filter], [name]'))
+          .find((element) => sameControl(controlKey(element), focused))
+          ?.focus();
+      }
+    }
+  };
+}
+
+/**
+ * Register `<feedbackkit-board>`
+ *
+ * Does nothing outside the browser, so it is safe to call during SSR.
+ *
+ * @param tagName - Custom element name (default `feedbackkit-board`)
+ * @returns The element class, or undefined where custom elements aren't supported
+ *
+ * @example
+ * ```ts
+ * import { defineFeedbackKitBoard } from 'feedbackkit-js/board';
+ *
+ * defineFeedbackKitBoard();
+ * // <feedbackkit-board api-key="sf_..." user-id="user_12345"></feedbackkit-board>
+ * ```
+ */
+export function defineFeedbackKitBoard(
+  tagName = 'feedbackkit-board'
+): { new (): FeedbackKitBoardElement } | undefined {
+  if (typeof HTMLElement === 'undefined' || typeof customElements === 'undefined') {
+    return undefined;
+  }
+
+  const existing = customElements.get(tagName) as { new (): FeedbackKitBoardElement } | undefined;
+  if (existing) {
+    return existing;
+  }
+
+  const element = createFeedbackKitBoardClass();
+  customElements.define(tagName, element);
+  return element;
+}
+
+function renderList(state: BoardState, userId: string | undefined): string {
+  const items = state.items
+    .map((item) => `<li class="item">
+  ${voteButton(item, state, userId)}
+  <div>
+    <button type="button" class="link" data-action="open" data-id="${escapeHtml(item.id)}">${escapeHtml(item.title)}</button>
+    <div class="muted"><span class="badge">${statusLabel(item.status)}</span> ${categoryLabel(item.category)} · ${Number(item.commentCount)} comments</div>
+  </div>
+</li>`)
+    .join('\n');
+
+  return `<h2 tabindex="-1" data-focus>Feedback</h2>
+<div class="toolbar">
+  ${select('status', 'Status', state.status, STATUS_LABELS, 'All statuses')}
+  ${select('category', 'Category', state.category, CATEGORY_LABELS, 'All categories')}
+  <button type="button" class="primary" data-action="new"${userId ? '' : ' disabled'}>Submit feedback</button>
+</div>
+${state.error
+    ? `<p class="error" role="alert">${escapeHtml(state.error)}</p>`
+    : state.loading ? '<p class="muted">Loading…</p>' : items ? `<ul>${items}</ul>` : '<p class="muted">No feedback yet.</p>'}`;
+}
+
+function renderDetail(state: BoardState, userId: string | undefined): string {
+  const item = state.selected;
+  if (!item) {
+    return '';
+  }
+
+  const comments = state.comments
+    .map((comment) => `<li class="item"><div>
+  <div class="muted">${escapeHtml(comment.userId)}${comment.isAdmin ? ' <span class="badge">Team</span>' : ''}</div>
+  <div>${escapeHtml(comment.content)}</div>
+</div></li>`)
+    .join('\n');
+
+  return `<div class="actions"><button type="button" data-action="back">Back to list</button></div>
+<h2 tabindex="-1" data-focus>${escapeHtml(item.title)}</h2>
+<p class="muted"><span class="badge">${statusLabel(item.status)}</span> ${categoryLabel(item.category)}</p>
+${item.rejectionReason ? `<p class="muted">${escapeHtml(item.rejectionReason)}</p>` : ''}
+<p>${escapeHtml(item.description)}</p>
+<div class="actions">${voteButton(item, state, userId)}</div>
+<h3>Comments</h3>
+${comments ? `<ul>${comments}</ul>` : '<p class="muted">No comments yet.</p>'}`;
+}
+
+function renderSubmit(state: BoardState): string {
+  const error = (field: string) => {
+    const messages = state.errors.filter((candidate) => candidate.field === field).map((candidate) => candidate.message);
+    return messages.length > 0 ? `<span class="error" id="error-${field}">${escapeHtml(messages.join(', '))}</span>` : '';
+  };
+  const invalid = (field: string) =>
+    state.errors.some((candidate) => candidate.field === field) ? ` aria-invalid="true" aria-describedby="error-${field}"` : '';
+  const categories = Object.values(FeedbackCategory)
+    .filter((category) => category !== FeedbackCategory.Unknown)
+    .map((category) => `<option value="${category}"${state.draft.category === category ? ' selected' : ''}>${CATEGORY_LABELS[category]}</option>`)
+    .join('');
+
+  return `<div class="actions"><button type="button" data-action="back">Back to list</button></div>
+<h2 tabindex="-1" data-focus>Submit feedback</h2>
+<form novalidate>
+  <label>Title<input name="title" required maxlength="200" value="${escapeHtml(state.draft.title ?? '')}"${invalid('title')}>${error('title')}</label>
+  <label>Description<textarea name="description" required maxlength="5000" rows="5"${invalid('description')}>${escapeHtml(state.draft.description ?? '')}</textarea>${error('description')}</label>
+  <label>Category<select name="category"${invalid('category')}>${categories}</select>${error('category')}</label>
+  <label>Email (optional, for status updates)<input name="email" type="email" value="${escapeHtml(state.draft.email ?? '')}"${invalid('userEmail')}>${error('userEmail')}</label>
+  <div class="actions"><button type="submit" class="primary"${state.loading ? ' aria-disabled="true"' : ''}>Submit</button></div>
+</form>`;
+}
+
+function voteButton(item: Feedback, state: BoardState, userId: string | undefined): string {
+  const disabled = !userId || !canVote(item);
+  // A vote in flight only marks the button busy, so it keeps keyboard focus
+  const busy = state.voting.has(item.id) ? ' aria-disabled="true"' : '';
+  const voteCount = Number(item.voteCount);
+  const label = `${item.hasVoted ? 'Remove vote from' : 'Vote for'} ${item.title}, ${voteCount} votes`;
+  return `<button type="button" class="vote" data-action="vote" data-id="${escapeHtml(item.id)}" aria-pressed="${item.hasVoted === true}" aria-label="${escapeHtml(label)}"${busy}${disabled ? ' disabled' : ''}>▲ ${voteCount}</button>`;
+}
+
+function select(name: string, label: string, value: string, options: Record<string, string>, allLabel: string): string {
+  const choices = Object.entries(options)
+    .filter(([option]) => option !== 'unknown')
+    .map(([option, text]) => `<option value="${option}"${option === value ? ' selected' : ''}>${text}</option>`)
+    .join('');
+  return `<label>${label}<select data-filter="${name}"><option value="">${allLabel}</option>${choices}</select></label>`;
+}
+
+function controlKey(element: Element | null): ControlKey | null {
+  if (!(element instanceof HTMLElement)) {
+    return null;
+  }
+  const { action, id, filter } = element.dataset;
+  const name = element.getAttribute('name') ?? undefined;
+  return action || filter || name ? { action, id, filter, name } : null;
+}
+
+function sameControl(a: ControlKey | null, b: ControlKey): boolean {
+  return a !== null && a.action === b.action && a.id === b.id && a.filter === b.filter && a.name === b.name;
+}
+
+/**
+ * Label of a status; unknown server values are shown escaped
+ */
+function statusLabel(status: string): string {
+  return escapeHtml(STATUS_LABELS[status as FeedbackStatus] ?? String(status));
+}
+
+/**
+ * Label of a category; unknown server values are shown escaped
+ */
+function categoryLabel(category: string): string {
+  return escapeHtml(CATEGORY_LABELS[category as FeedbackCategory] ?? String(category));
+}
+
+/**
+ * Field errors of a ValidationError
+ *
+ * Checked structurally: the client may come from a different bundle than
+ * this element, so `instanceof` can't be relied on.
+ */
+function fieldErrors(error: unknown): FieldError[] {
+  const fields = (error as { fields?: unknown } | null)?.fields;
+  return Array.isArray(fields) ? (fields as FieldError[]) : [];
+}
+
+/**
+ * Whether a request failed offline and was queued for replay
+ */
+function isQueued(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === 'QueuedError';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Something went wrong';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,8 @@
+/**
+ * FeedbackKit board web component
+ *
+ * Import from `feedbackkit-js/board`; not part of the main bundle.
+ */
+
+export { defineFeedbackKitBoard, createFeedbackKitBoardClass } from './board';
+export type { FeedbackKitBoardElement } from './board';
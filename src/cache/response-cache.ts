@@ -0,0 +1,207 @@
+/**
+ * Response Cache
+ *
+ * Client-side cache for feedback reads with stale-while-revalidate.
+ */
+
+import { CacheConfig, Feedback, Page, DEFAULT_CACHE_CONFIG } from '../models/types';
+
+/**
+ * A cached response
+ */
+interface CacheEntry {
+  /** User the response was fetched for (`hasVoted` depends on it) */
+  userId: string;
+  /** API path the response belongs to */
+  path: string;
+  /** Cached response body */
+  data: unknown;
+  /** When the response was stored (ms since epoch) */
+  storedAt: number;
+  /** In-flight fetch for this key, shared between callers */
+  pending?: Promise<unknown>;
+}
+
+/**
+ * Patch applied to cached feedback items
+ */
+export type FeedbackPatch = Partial<Feedback> | ((feedback: Feedback) => Partial<Feedback>);
+
+/**
+ * Cache for API responses, keyed per user, path and query options
+ *
+ * Within `ttl` a cached response is returned as-is. Within the following
+ * `staleWhileRevalidate` window it is returned immediately while a
+ * background request refreshes it. Failed background refreshes keep the
+ * stale response. Cached objects are replaced rather than mutated, so they
+ * can be compared by reference.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttl: number;
+  private staleWhileRevalidate: number;
+  private maxEntries: number;
+
+  constructor(config: CacheConfig = {}) {
+    this.ttl = config.ttl ?? DEFAULT_CACHE_CONFIG.ttl;
+    this.staleWhileRevalidate = config.staleWhileRevalidate ?? DEFAULT_CACHE_CONFIG.staleWhileRevalidate;
+    this.maxEntries = config.maxEntries ?? DEFAULT_CACHE_CONFIG.maxEntries;
+  }
+
+  /**
+   * Return a cached response or fetch it
+   *
+   * @param userId - Current user ID (empty string when anonymous)
+   * @param path - API path
+   * @param params - Query options that affect the response
+   * @param fetcher - Fetches a fresh response
+   */
+  async get<T>(
+    userId: string,
+    path: string,
+    params: Record<string, unknown> | undefined,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    const key = cacheKey(userId, path, params);
+    const entry = this.entries.get(key);
+
+    if (entry && entry.storedAt > 0) {
+      const age = Date.now() - entry.storedAt;
+      if (age < this.ttl) {
+        return entry.data as T;
+      }
+      if (age < this.ttl + this.staleWhileRevalidate) {
+        // Serve stale, refresh in the background
+        this.fetch(key, userId, path, fetcher).catch(() => undefined);
+        return entry.data as T;
+      }
+    }
+
+    return this.fetch(key, userId, path, fetcher);
+  }
+
+  /**
+   * Remove cached responses
+   *
+   * @param path - Only remove responses for this path or paths below it;
+   *   removes everything when omitted
+   *
+   * @example
+   * ```ts
+   * feedbackKit.cache?.invalidate();                  // everything
+   * feedbackKit.cache?.invalidate('/feedbacks');      // lists and items
+   * feedbackKit.cache?.invalidate(`/feedbacks/${id}`); // a single item
+   * ```
+   */
+  invalidate(path?: string): void {
+    if (path === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.path === path || entry.path.startsWith(`${path}/`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Update a feedback item wherever it is cached
+   *
+   * @param feedbackId - The feedback to patch
+   * @param patch - Fields to apply for every user
+   * @param userPatch - Fields to apply only to responses cached for `userId`
+   * @param userId - User the `userPatch` applies to
+   */
+  patchFeedback(
+    feedbackId: string,
+    patch: FeedbackPatch,
+    userPatch?: Partial<Feedback>,
+    userId?: string
+  ): void {
+    const apply = (feedback: Feedback, entryUserId: string): Feedback => {
+      if (feedback.id !== feedbackId) {
+        return feedback;
+      }
+      return {
+        ...feedback,
+        ...(typeof patch === 'function' ? patch(feedback) : patch),
+        ...(userPatch && entryUserId === userId ? userPatch : {})
+      };
+    };
+
+    for (const entry of this.entries.values()) {
+      if (isPage(entry.data)) {
+        entry.data = {
+          ...entry.data,
+          items: entry.data.items.map((item) => apply(item, entry.userId))
+        };
+      } else if (isFeedback(entry.data)) {
+        entry.data = apply(entry.data, entry.userId);
+      }
+    }
+  }
+
+  private fetch<T>(key: string, userId: string, path: string, fetcher: () => Promise<T>): Promise<T> {
+    const existing = this.entries.get(key);
+    if (existing?.pending) {
+      return existing.pending as Promise<T>;
+    }
+
+    const entry: CacheEntry = existing ?? { userId, path, data: undefined, storedAt: 0 };
+    const pending = fetcher().then(
+      (data) => {
+        entry.data = data;
+        entry.storedAt = Date.now();
+        entry.pending = undefined;
+        return data;
+      },
+      (error) => {
+        entry.pending = undefined;
+        if (entry.storedAt === 0) {
+          this.entries.delete(key);
+        }
+        throw error;
+      }
+    );
+
+    entry.pending = pending;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    return pending;
+  }
+
+  private evict(): void {
+    // Map iteration order is insertion order; oldest entries go first
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Build a stable cache key
+ */
+function cacheKey(userId: string, path: string, params?: Record<string, unknown>): string {
+  const query = params
+    ? Object.keys(params)
+        .filter((name) => params[name] !== undefined)
+        .sort()
+        .map((name) => `${name}=${JSON.stringify(params[name])}`)
+        .join('&')
+    : '';
+  return `${userId}\n${path}\n${query}`;
+}
+
+function isPage(data: unknown): data is Page<Feedback> {
+  return data !== null && typeof data === 'object' && Array.isArray((data as Page<Feedback>).items);
+}
+
+function isFeedback(data: unknown): data is Feedback {
+  return data !== null && typeof data === 'object' && 'id' in data && 'voteCount' in data;
+}
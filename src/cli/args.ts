@@ -0,0 +1,124 @@
+/**
+ * Command-line argument parsing
+ */
+
+/**
+ * Parsed command line
+ */
+export interface ParsedArgs {
+  /** First positional argument */
+  command: string | undefined;
+  /** Remaining positional arguments */
+  positionals: string[];
+  /** Flag values by name (without dashes); boolean flags are `'true'` */
+  flags: Record<string, string[]>;
+}
+
+/**
+ * Thrown for invalid command lines
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Flags that take no value
+ */
+const BOOLEAN_FLAGS = new Set(['help', 'json', 'admin', 'include-merged', 'notify']);
+
+/**
+ * Single-letter aliases
+ */
+const ALIASES: Record<string, string> = {
+  h: 'help',
+  u: 'user'
+};
+
+/**
+ * Split a command line into command, positionals and flags
+ *
+ * Supports `--flag value`, `--flag=value`, repeated flags, `-u value` style
+ * aliases and `--` to end flag parsing.
+ *
+ * @throws UsageError if a flag is missing its value
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string[]> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = splitOnce(arg.replace(/^--?/, ''), '=');
+    const name = arg.startsWith('--') ? rawName : ALIASES[rawName] ?? rawName;
+
+    let value: string;
+    if (BOOLEAN_FLAGS.has(name)) {
+      value = inlineValue ?? 'true';
+    } else if (inlineValue !== undefined) {
+      value = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      value = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+
+    (flags[name] ??= []).push(value);
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, flags };
+}
+
+/**
+ * Reject flags a command doesn't understand
+ *
+ * @throws UsageError naming the first unknown flag
+ */
+export function assertKnownFlags(args: ParsedArgs, known: readonly string[]): void {
+  const unknown = Object.keys(args.flags).find((name) => !known.includes(name));
+  if (unknown) {
+    throw new UsageError(`Unknown option --${unknown}`);
+  }
+}
+
+/**
+ * Last value of a flag
+ */
+export function flag(args: ParsedArgs, name: string): string | undefined {
+  const values = args.flags[name];
+  return values?.[values.length - 1];
+}
+
+/**
+ * All values of a repeatable flag; comma-separated values are split
+ */
+export function flagList(args: ParsedArgs, name: string): string[] {
+  return (args.flags[name] ?? []).flatMap((value) => value.split(',')).filter(Boolean);
+}
+
+/**
+ * Whether a boolean flag is set
+ */
+export function flagSet(args: ParsedArgs, name: string): boolean {
+  const value = flag(args, name);
+  return value !== undefined && value !== 'false';
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
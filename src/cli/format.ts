@@ -0,0 +1,51 @@
+/**
+ * Command-line output formatting
+ */
+
+/**
+ * A table column
+ */
+export interface Column<T> {
+  /** Header text */
+  header: string;
+  /** Cell value */
+  value: (row: T) => string | number | boolean | null | undefined;
+  /** Truncate longer values (with an ellipsis) */
+  maxWidth?: number;
+}
+
+/**
+ * Render rows as a plain-text table with padded columns
+ */
+export function formatTable<T>(rows: readonly T[], columns: readonly Column<T>[]): string {
+  const cells = rows.map((row) =>
+    columns.map((column) => truncate(toText(column.value(row)), column.maxWidth))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index].length))
+  );
+
+  const line = (values: string[]) =>
+    values.map((value, index) => (index === values.length - 1 ? value : value.padEnd(widths[index]))).join('  ');
+
+  return [line(columns.map((column) => column.header)), ...cells.map(line)].join('\n');
+}
+
+/**
+ * Render an object as aligned `key: value` lines
+ */
+export function formatRecord(record: Record<string, unknown>): string {
+  const entries = Object.entries(record).filter(([, value]) => value !== undefined && value !== null);
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+  return entries
+    .map(([key, value]) => `${`${key}:`.padEnd(width + 1)} ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join('\n');
+}
+
+function toText(value: string | number | boolean | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value).replace(/\s+/g, ' ');
+}
+
+function truncate(value: string, maxWidth?: number): string {
+  return maxWidth !== undefined && value.length > maxWidth ? `${value.slice(0, maxWidth - 1)}…` : value;
+}
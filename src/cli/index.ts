@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+/**
+ * `feedbackkit` executable
+ */
+
+import { run } from './run';
+
+run(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  env: process.env,
+  readFile: async (path) => {
+    const fs = await import('fs/promises');
+    try {
+      return await fs.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,370 @@
+/**
+ * FeedbackKit command-line interface
+ */
+
+import { FeedbackKit } from '../client';
+import {
+  FeedbackKitError,
+  AuthenticationError,
+  PaymentRequiredError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  NetworkError
+} from '../models/errors';
+import { Comment, Feedback, FeedbackCategory, FeedbackSort, FeedbackStatus } from '../models/types';
+import { FetchFunction } from '../utils/transport';
+import { ParsedArgs, UsageError, parseArgs, assertKnownFlags, flag, flagList, flagSet } from './args';
+import { formatTable, formatRecord } from './format';
+
+/**
+ * Process exit codes, one per error class
+ */
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  authentication: 3,
+  paymentRequired: 4,
+  forbidden: 5,
+  notFound: 6,
+  conflict: 7,
+  validation: 8,
+  network: 9,
+  server: 10
+} as const;
+
+/**
+ * Environment the CLI runs in (injectable for tests)
+ */
+export interface CliIO {
+  /** Write a line to standard output */
+  stdout(text: string): void;
+  /** Write a line to standard error */
+  stderr(text: string): void;
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+  /** Read a file; resolves undefined if it doesn't exist */
+  readFile(path: string): Promise<string | undefined>;
+  /** fetch implementation for the client (defaults to the global fetch) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Settings from the config file
+ */
+interface CliConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  userId?: string;
+}
+
+/**
+ * Result of a command: raw data for `--json` and text for humans
+ */
+interface Output {
+  data: unknown;
+  text: string;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  flags: readonly string[];
+  run(client: FeedbackKit, args: ParsedArgs, userId: string | undefined): Promise<Output>;
+}
+
+const GLOBAL_FLAGS = ['help', 'json', 'base-url', 'api-key', 'config', 'user'] as const;
+
+const STATUSES = Object.values(FeedbackStatus).filter((status) => status !== FeedbackStatus.Unknown);
+const CATEGORIES = Object.values(FeedbackCategory).filter((category) => category !== FeedbackCategory.Unknown);
+const SORTS = Object.values(FeedbackSort);
+
+const COMMANDS: Record<string, Command> = {
+  list: {
+    usage: 'list [--status <status>] [--category <category>] [--sort <sort>] [--limit <n>] [--include-merged]',
+    description: 'List feedback (--status and --category may be repeated or comma-separated)',
+    flags: ['status', 'category', 'sort', 'limit', 'include-merged'],
+    async run(client, args) {
+      const items = await client.feedback.list({
+        status: oneOf(flagList(args, 'status'), STATUSES, 'status'),
+        category: oneOf(flagList(args, 'category'), CATEGORIES, 'category'),
+        sort: oneOf(flagList(args, 'sort'), SORTS, 'sort')[0],
+        limit: optionalNumber(args, 'limit'),
+        includeMerged: flagSet(args, 'include-merged') || undefined
+      });
+      return {
+        data: items,
+        text: items.length === 0 ? 'No feedback found' : formatTable<Feedback>(items, [
+          { header: 'ID', value: (item) => item.id },
+          { header: 'STATUS', value: (item) => item.status },
+          { header: 'CATEGORY', value: (item) => item.category },
+          { header: 'VOTES', value: (item) => item.voteCount },
+          { header: 'COMMENTS', value: (item) => item.commentCount },
+          { header: 'TITLE', value: (item) => item.title, maxWidth: 60 }
+        ])
+      };
+    }
+  },
+
+  get: {
+    usage: 'get <id>',
+    description: 'Show a feedback item',
+    flags: [],
+    async run(client, args) {
+      const feedback = await client.feedback.get(requirePositional(args, 0, 'id'));
+      return { data: feedback, text: formatRecord({ ...feedback }) };
+    }
+  },
+
+  comments: {
+    usage: 'comments <id>',
+    description: 'List comments on a feedback item',
+    flags: [],
+    async run(client, args) {
+      const comments = await client.comments.list(requirePositional(args, 0, 'id'));
+      return {
+        data: comments,
+        text: comments.length === 0 ? 'No comments' : formatTable<Comment>(comments, [
+          { header: 'CREATED', value: (comment) => comment.createdAt },
+          { header: 'USER', value: (comment) => comment.userId },
+          { header: 'ADMIN', value: (comment) => (comment.isAdmin ? 'yes' : '') },
+          { header: 'CONTENT', value: (comment) => comment.content, maxWidth: 80 }
+        ])
+      };
+    }
+  },
+
+  comment: {
+    usage: 'comment <id> <text> --user <userId> [--admin]',
+    description: 'Add a comment to a feedback item',
+    flags: ['admin'],
+    async run(client, args, userId) {
+      const feedbackId = requirePositional(args, 0, 'id');
+      const content = args.positionals.slice(1).join(' ');
+      if (!content) {
+        throw new UsageError('Missing <text>');
+      }
+      const comment = await client.comments.create(feedbackId, {
+        content,
+        userId: requireUser(userId),
+        isAdmin: flagSet(args, 'admin')
+      });
+      return { data: comment, text: `Comment ${comment.id} added` };
+    }
+  },
+
+  vote: {
+    usage: 'vote <id> --user <userId> [--email <email>] [--notify]',
+    description: 'Vote for a feedback item',
+    flags: ['email', 'notify'],
+    async run(client, args, userId) {
+      const result = await client.votes.vote(requirePositional(args, 0, 'id'), {
+        userId: requireUser(userId),
+        email: flag(args, 'email'),
+        notifyStatusChange: flagSet(args, 'notify')
+      });
+      return { data: result, text: `Voted; ${result.feedbackId} now has ${result.voteCount} votes` };
+    }
+  },
+
+  unvote: {
+    usage: 'unvote <id> --user <userId>',
+    description: 'Remove a vote from a feedback item',
+    flags: [],
+    async run(client, args, userId) {
+      const result = await client.votes.unvote(requirePositional(args, 0, 'id'), {
+        userId: requireUser(userId)
+      });
+      return { data: result, text: `Vote removed; ${result.feedbackId} now has ${result.voteCount} votes` };
+    }
+  },
+
+  'register-user': {
+    usage: 'register-user --user <userId> [--mrr <amount>]',
+    description: 'Register a user or update their MRR',
+    flags: ['mrr'],
+    async run(client, args, userId) {
+      const user = await client.users.register({
+        userId: args.positionals[0] ?? requireUser(userId),
+        mrr: optionalNumber(args, 'mrr')
+      });
+      return { data: user, text: formatRecord({ ...user }) };
+    }
+  },
+
+  track: {
+    usage: 'track <event> --user <userId> [--prop key=value ...]',
+    description: 'Track an event',
+    flags: ['prop'],
+    async run(client, args, userId) {
+      const properties: Record<string, string> = {};
+      for (const prop of args.flags.prop ?? []) {
+        const index = prop.indexOf('=');
+        if (index <= 0) {
+          throw new UsageError(`Invalid --prop ${prop}; expected key=value`);
+        }
+        properties[prop.slice(0, index)] = prop.slice(index + 1);
+      }
+      const event = await client.events.track({
+        eventName: requirePositional(args, 0, 'event'),
+        userId: requireUser(userId),
+        properties: Object.keys(properties).length > 0 ? properties : undefined
+      });
+      return { data: event, text: `Tracked ${event.eventName}` };
+    }
+  }
+};
+
+/**
+ * Run the CLI
+ *
+ * The API key is read from `--api-key`, `FEEDBACKKIT_API_KEY` or the config
+ * file (`--config`, `FEEDBACKKIT_CONFIG` or `~/.feedbackkit.json`), in that
+ * order. The base URL and default user are resolved the same way.
+ *
+ * @param argv - Arguments without the node and script paths
+ * @param io - Output streams, environment and file access
+ * @returns The process exit code (see `EXIT_CODES`)
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (!args.command || args.command === 'help') {
+      io.stdout(usage());
+      return EXIT_CODES.success;
+    }
+
+    const command = COMMANDS[args.command];
+    if (!command) {
+      throw new UsageError(`Unknown command: ${args.command}`);
+    }
+    if (flagSet(args, 'help')) {
+      io.stdout(`Usage: feedbackkit ${command.usage}`);
+      return EXIT_CODES.success;
+    }
+
+    assertKnownFlags(args, [...GLOBAL_FLAGS, ...command.flags]);
+
+    const config = await loadConfig(args, io);
+    const apiKey = flag(args, 'api-key') ?? io.env.FEEDBACKKIT_API_KEY ?? config.apiKey;
+    if (!apiKey) {
+      throw new UsageError('No API key; set FEEDBACKKIT_API_KEY or add apiKey to the config file');
+    }
+
+    const userId = flag(args, 'user') ?? io.env.FEEDBACKKIT_USER_ID ?? config.userId;
+    const client = new FeedbackKit({
+      apiKey,
+      baseUrl: flag(args, 'base-url') ?? io.env.FEEDBACKKIT_BASE_URL ?? config.baseUrl,
+      userId,
+      fetch: io.fetch
+    });
+
+    const output = await command.run(client, args, userId);
+    io.stdout(flagSet(args, 'json') ? JSON.stringify(output.data, null, 2) : output.text);
+    return EXIT_CODES.success;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\nRun "feedbackkit --help" for usage.`);
+      return EXIT_CODES.usage;
+    }
+
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof ValidationError) {
+      error.fields.forEach((field) => io.stderr(`  ${field.field}: ${field.message}`));
+    }
+    return exitCodeFor(error);
+  }
+}
+
+/**
+ * Map an error to its exit code
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof AuthenticationError) return EXIT_CODES.authentication;
+  if (error instanceof PaymentRequiredError) return EXIT_CODES.paymentRequired;
+  if (error instanceof ForbiddenError) return EXIT_CODES.forbidden;
+  if (error instanceof NotFoundError) return EXIT_CODES.notFound;
+  if (error instanceof ConflictError) return EXIT_CODES.conflict;
+  if (error instanceof ValidationError) return EXIT_CODES.validation;
+  if (error instanceof NetworkError) return EXIT_CODES.network;
+  if (error instanceof FeedbackKitError) return EXIT_CODES.server;
+  return EXIT_CODES.error;
+}
+
+function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  return [
+    'Usage: feedbackkit <command> [options]',
+    '',
+    'Commands:',
+    ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}  ${command.description}`),
+    '',
+    'Options:',
+    '  --json             Print JSON instead of a table',
+    '  --base-url <url>   API base URL (or FEEDBACKKIT_BASE_URL)',
+    '  --api-key <key>    Project API key (or FEEDBACKKIT_API_KEY)',
+    '  --config <path>    Config file (default: ~/.feedbackkit.json)',
+    '  -u, --user <id>    User ID (or FEEDBACKKIT_USER_ID)',
+    '  -h, --help         Show help for a command'
+  ].join('\n');
+}
+
+async function loadConfig(args: ParsedArgs, io: CliIO): Promise<CliConfig> {
+  const explicit = flag(args, 'config') ?? io.env.FEEDBACKKIT_CONFIG;
+  const home = io.env.HOME ?? io.env.USERPROFILE;
+  const path = explicit ?? (home ? `${home}/.feedbackkit.json` : undefined);
+  if (!path) {
+    return {};
+  }
+
+  const contents = await io.readFile(path);
+  if (contents === undefined) {
+    if (explicit) {
+      throw new UsageError(`Config file not found: ${path}`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(contents) as CliConfig;
+  } catch {
+    throw new UsageError(`Invalid JSON in config file: ${path}`);
+  }
+}
+
+function requirePositional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+function requireUser(userId: string | undefined): string {
+  if (!userId) {
+    throw new UsageError('Missing --user');
+  }
+  return userId;
+}
+
+function optionalNumber(args: ParsedArgs, name: string): number | undefined {
+  const value = flag(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+function oneOf<T extends string>(values: string[], allowed: readonly T[], name: string): T[] {
+  const invalid = values.find((value) => !allowed.includes(value as T));
+  if (invalid !== undefined) {
+    throw new UsageError(`Invalid --${name} ${invalid}; expected one of ${allowed.join(', ')}`);
+  }
+  return values as T[];
+}
@@ -5,12 +5,34 @@
  */
 
 import { HttpClient } from './utils/http';
+import { FetchTransport } from './utils/transport';
+import { Logger } from './utils/logger';
+import { assertValid, validateApiKey } from './utils/validation';
+import { Interceptor } from './utils/interceptors';
+import { OfflineQueue } from './offline/queue';
+import { EventBuffer } from './events/buffer';
+import { AutoTracker } from './events/auto-tracker';
+import { Session, SessionTraits } from './session/session';
+import { AnonymousIdStore } from './session/anonymous-id';
+import { LocalStorageAdapter } from './storage/adapters';
+import { ResponseCache } from './cache/response-cache';
 import { FeedbackApi } from './api/feedback';
 import { VotesApi } from './api/votes';
 import { CommentsApi } from './api/comments';
 import { UsersApi } from './api/users';
 import { EventsApi } from './api/events';
-import { FeedbackKitConfig, DEFAULT_CONFIG } from './models/types';
+import {
+  EventBufferConfig,
+  EventBufferOption,
+  FeedbackKitConfig,
+  NoEventBuffer,
+  TrackedEvent,
+  TrackResult,
+  SDKUser,
+  WithDatesIf,
+  DEFAULT_CONFIG,
+  DEFAULT_ANONYMOUS_ID_CONFIG
+} from './models/types';
 
 /**
  * FeedbackKit SDK Client
@@ -59,25 +81,50 @@ import { FeedbackKitConfig, DEFAULT_CONFIG } from './models/types';
  *   userId: 'user_12345'
  * });
  * ```
+ *
+ * `TDates` is inferred from `decode: { dates: true }`; responses then carry
+ * Date objects instead of date strings. `TBuffer` is inferred from the
+ * `eventBuffer` option; with buffering on, `events.track` resolves with null
+ * (`TTracked`). UI bindings take `FeedbackKit<false, EventBufferOption>`,
+ * which accepts clients with any `eventBuffer` setting.
  */
-export class FeedbackKit {
+export class FeedbackKit<
+  TDates extends boolean = false,
+  TBuffer extends EventBufferOption | NoEventBuffer = EventBufferOption | NoEventBuffer,
+  TTracked = TrackResult<WithDatesIf<TrackedEvent, TDates>, TBuffer>
+> {
   private http: HttpClient;
-  private config: Required<FeedbackKitConfig>;
+  private config: Required<Pick<FeedbackKitConfig, 'apiKey' | 'baseUrl' | 'timeout' | 'registerInterval'>>;
+  private session: Session;
+  private registering: {
+    userId: string;
+    mrr: number | undefined;
+    promise: Promise<WithDatesIf<SDKUser, TDates>>;
+  } | null = null;
+  private anonymous: AnonymousIdStore | null = null;
+  private aliasOnIdentify = false;
+  private eventBuffer: EventBuffer | null;
 
   /** Feedback management API */
-  public readonly feedback: FeedbackApi;
+  public readonly feedback: FeedbackApi<TDates>;
 
   /** Voting API */
   public readonly votes: VotesApi;
 
   /** Comments API */
-  public readonly comments: CommentsApi;
+  public readonly comments: CommentsApi<TDates>;
 
   /** User registration API */
-  public readonly users: UsersApi;
+  public readonly users: UsersApi<TDates>;
 
   /** Event tracking API */
-  public readonly events: EventsApi;
+  public readonly events: EventsApi<TDates, TTracked>;
+
+  /** Offline write queue (null unless the `offline` option is set) */
+  public readonly outbox: OfflineQueue | null;
+
+  /** Feedback response cache (null unless the `cache` option is set) */
+  public readonly cache: ResponseCache | null;
 
   /**
    * Create a new FeedbackKit client
@@ -87,6 +134,21 @@ export class FeedbackKit {
    * @param config.baseUrl - API base URL (optional, defaults to production)
    * @param config.userId - Current user ID for hasVoted state (optional)
    * @param config.timeout - Request timeout in ms (optional, defaults to 30000)
+   * @param config.retry - Retry policy, or false to disable retries (optional)
+   * @param config.fetch - Custom fetch implementation (optional)
+   * @param config.transport - Custom transport, overrides fetch (optional)
+   * @param config.offline - Queue writes made while offline and replay them later (optional)
+   * @param config.eventBuffer - Buffer tracked events and send them in batches (optional)
+   * @param config.cache - Cache feedback reads with stale-while-revalidate (optional)
+   * @param config.decode - Check response shapes at runtime, optionally converting dates (optional)
+   * @param config.autoTrack - Track the SDK view events automatically (optional)
+   * @param config.registerInterval - Minimum time between `identify` registrations in ms (optional, defaults to 1 hour)
+   * @param config.anonymousId - Use a persisted anonymous ID until a user is identified (optional)
+   * @param config.logger - Log requests and responses with secrets redacted (optional)
+   * @param config.debug - Log everything, including request headers and bodies, to the console (optional)
+   * @param config.tracer - Create a span per request and propagate `traceparent` (optional)
+   * @param config.metrics - Record request counts, failures and latency (optional)
+   * @throws ValidationError if apiKey is missing or doesn't start with `sf_`
    *
    * @example
    * ```ts
@@ -100,35 +162,130 @@ export class FeedbackKit {
    *   apiKey: 'sf_your_api_key',
    *   baseUrl: 'https://feedbackkit.swiftly-workspace.com/api/v1',
    *   userId: 'user_12345',
-   *   timeout: 10000
+   *   timeout: 10000,
+   *   retry: {
+   *     maxAttempts: 4,
+   *     onRetry: ({ attempt, delay }) => console.warn(`Retry #${attempt} in ${delay}ms`)
+   *   }
    * });
    * ```
    */
-  constructor(config: FeedbackKitConfig) {
-    if (!config.apiKey) {
-      throw new Error('FeedbackKit: apiKey is required');
-    }
+  constructor(config: FeedbackKitConfig<TDates, TBuffer>) {
+    assertValid(validateApiKey(config.apiKey));
 
     this.config = {
       apiKey: config.apiKey,
       baseUrl: config.baseUrl || DEFAULT_CONFIG.baseUrl,
-      userId: config.userId || '',
-      timeout: config.timeout || DEFAULT_CONFIG.timeout
+      timeout: config.timeout || DEFAULT_CONFIG.timeout,
+      registerInterval: config.registerInterval ?? DEFAULT_CONFIG.registerInterval
     };
+    this.session = new Session(config.userId);
 
     this.http = new HttpClient({
       baseUrl: this.config.baseUrl,
       apiKey: this.config.apiKey,
-      userId: this.config.userId || undefined,
-      timeout: this.config.timeout
+      userId: this.session.getUserId(),
+      timeout: this.config.timeout,
+      retry: config.retry,
+      transport: config.transport ?? new FetchTransport(config.fetch),
+      logger: config.logger || config.debug
+        ? new Logger({
+            ...(config.debug ? { level: 'debug' } : {}),
+            ...(typeof config.logger === 'object' ? config.logger : {})
+          })
+        : null,
+      tracer: config.tracer ?? null,
+      metrics: config.metrics ?? null
     });
 
+    this.outbox = config.offline
+      ? new OfflineQueue(config.offline === true ? {} : config.offline, (item) =>
+          this.http.request({
+            method: item.method,
+            path: item.path,
+            body: item.body,
+            idempotencyKey: item.idempotencyKey,
+            operation: 'outbox.replay'
+          })
+        )
+      : null;
+    this.http.setOutbox(this.outbox);
+    this.session.onUserIdChange((userId) => this.http.setUserId(userId));
+
+    if (config.anonymousId) {
+      const options = config.anonymousId === true ? {} : config.anonymousId;
+      this.anonymous = new AnonymousIdStore(
+        options.storage ?? new LocalStorageAdapter(),
+        options.storageKey ?? DEFAULT_ANONYMOUS_ID_CONFIG.storageKey,
+        (id) => this.session.setAnonymousId(id)
+      );
+      this.aliasOnIdentify = options.aliasOnIdentify ?? DEFAULT_ANONYMOUS_ID_CONFIG.aliasOnIdentify;
+    }
+
+    this.cache = config.cache
+      ? new ResponseCache(config.cache === true ? {} : config.cache)
+      : null;
+
+    const decode = config.decode ? (config.decode === true ? {} : config.decode) : null;
+
+    const tracker = config.autoTrack
+      ? new AutoTracker(
+          config.autoTrack === true ? {} : config.autoTrack,
+          async (event) => this.events.enqueue(event),
+          () => this.session.getUserId()
+        )
+      : null;
+
     // Initialize API modules
-    this.feedback = new FeedbackApi(this.http);
-    this.votes = new VotesApi(this.http);
-    this.comments = new CommentsApi(this.http);
-    this.users = new UsersApi(this.http);
-    this.events = new EventsApi(this.http);
+    this.feedback = new FeedbackApi(this.http, this.cache, decode, tracker, this.session);
+    this.votes = new VotesApi(this.http, this.cache, decode, this.session);
+    this.comments = new CommentsApi(this.http, this.cache, decode, this.session);
+    this.users = new UsersApi(this.http, decode, this.session);
+    this.eventBuffer = config.eventBuffer
+      ? new EventBuffer(config.eventBuffer === true ? {} : (config.eventBuffer as EventBufferConfig), (events, options) =>
+          this.events.trackBatch(events, options)
+        )
+      : null;
+    this.events = new EventsApi(
+      this.http,
+      this.eventBuffer,
+      decode,
+      tracker,
+      this.session
+    );
+  }
+
+  /**
+   * Register a request/response interceptor
+   *
+   * All API modules send their requests through the interceptor chain.
+   * `onRequest` hooks run in registration order, `onResponse` and `onError`
+   * hooks in reverse order.
+   *
+   * @param interceptor - Hooks to run around every request
+   * @returns A function that removes the interceptor
+   *
+   * @example
+   * ```ts
+   * const eject = feedbackKit.use({
+   *   onRequest(request) {
+   *     request.headers['X-Trace-Id'] = crypto.randomUUID();
+   *     request.url = request.url.replace('https://feedbackkit.swiftly-workspace.com', 'https://gateway.example.com');
+   *   },
+   *   onResponse(response, request) {
+   *     console.log(request.method, request.path, response.status);
+   *   },
+   *   onError(error) {
+   *     reportToSentry(error);
+   *   }
+   * });
+   *
+   * // Later
+   * eject();
+   * ```
+   */
+  use(interceptor: Interceptor): () => void {
+    return this.http.use(interceptor);
   }
 
   /**
@@ -148,15 +305,122 @@ export class FeedbackKit {
    * ```
    */
   setUserId(userId: string | undefined): void {
-    this.config.userId = userId || '';
-    this.http.setUserId(userId);
+    this.session.setUser(userId);
+  }
+
+  /**
+   * Identify the current user
+   *
+   * Sets the user ID for `hasVoted` state and as the default `userId` of all
+   * requests, remembers the email for vote notifications and new feedback,
+   * and registers the user (refreshing `lastSeenAt` and MRR). Registration
+   * is skipped if the same user with the same MRR was registered within
+   * `registerInterval`.
+   *
+   * With the `anonymousId` option and `aliasOnIdentify` enabled, the
+   * anonymous ID is first aliased to the user, once per anonymous ID, so
+   * earlier votes and comments follow them. If aliasing fails, the user is
+   * not set, so calling `identify` again retries it.
+   *
+   * @param userId - The user ID
+   * @param traits - Email and MRR of the user
+   * @returns The registered user, or null if registration was skipped
+   * @throws ValidationError without a request if userId is empty or mrr is invalid
+   *
+   * @example
+   * ```ts
+   * // After login
+   * await feedbackKit.identify('user_12345', { email: 'user@example.com', mrr: 9.99 });
+   *
+   * // No userId needed any more
+   * await feedbackKit.votes.vote('feedback-id', { notifyStatusChange: true });
+   * ```
+   */
+  async identify(userId: string, traits?: SessionTraits): Promise<WithDatesIf<SDKUser, TDates> | null> {
+    // Alias before switching users, so a failed alias is retried next time
+    if (this.anonymous && this.aliasOnIdentify && !this.session.isIdentified()) {
+      await this.aliasAnonymousId(this.anonymous, userId);
+    }
+    this.session.setUser(userId, traits);
+    if (!this.session.needsRegistration(this.config.registerInterval)) {
+      return null;
+    }
+    const mrr = this.session.getMrr();
+    // Share a registration already in flight for the same user and MRR
+    if (this.registering?.userId === userId && this.registering.mrr === mrr) {
+      return this.registering.promise;
+    }
+
+    const promise = this.users.register({ userId, mrr });
+    this.registering = { userId, mrr, promise };
+    try {
+      const user = await promise;
+      if (this.session.getUserId() === userId) {
+        this.session.markRegistered(userId, mrr);
+      }
+      return user;
+    } finally {
+      if (this.registering?.promise === promise) {
+        this.registering = null;
+      }
+    }
   }
 
   /**
-   * Get the current user ID
+   * Forget the identified user, e.g. on logout
+   *
+   * Clears the user ID, email and MRR, and replaces the anonymous ID so the
+   * next visitor on this device starts fresh.
+   */
+  reset(): void {
+    this.registering = null;
+    this.anonymous?.rotate();
+    this.session.clear();
+  }
+
+  /**
+   * Send pending work and stop background activity
+   *
+   * Stops the event buffer's flush timer and page-hide/exit listeners and
+   * the outbox's reconnect and interval replays, then flushes buffered
+   * events and replays the outbox one last time. Call it when the client is
+   * no longer needed, e.g. when an app unmounts or before a script ends.
+   *
+   * @example
+   * ```ts
+   * await feedbackKit.destroy();
+   * ```
+   */
+  async destroy(): Promise<void> {
+    this.eventBuffer?.destroy();
+    this.outbox?.destroy();
+    await Promise.all([this.eventBuffer?.flush(), this.outbox?.replay()]);
+  }
+
+  /**
+   * Get the anonymous ID, once it has been loaded from storage
+   *
+   * @returns The anonymous ID, or undefined without the `anonymousId` option
+   */
+  async getAnonymousId(): Promise<string | undefined> {
+    return this.anonymous?.ready();
+  }
+
+  /**
+   * Listen for changes of the current user ID
+   *
+   * @param listener - Called with the new user ID after `setUserId` changes it
+   * @returns A function that removes the listener
+   */
+  onUserIdChange(listener: (userId: string | undefined) => void): () => void {
+    return this.session.onUserIdChange(listener);
+  }
+
+  /**
+   * Get the current user ID, or the anonymous ID while no user is identified
    */
   getUserId(): string | undefined {
-    return this.config.userId || undefined;
+    return this.session.getUserId();
   }
 
   /**
@@ -165,4 +429,13 @@ export class FeedbackKit {
   getBaseUrl(): string {
     return this.config.baseUrl;
   }
+
+  private async aliasAnonymousId(anonymous: AnonymousIdStore, userId: string): Promise<void> {
+    const previousId = await anonymous.ready();
+    if (previousId === userId || (await anonymous.isAliased(previousId))) {
+      return;
+    }
+    await this.users.alias({ previousId, userId });
+    await anonymous.markAliased(previousId);
+  }
 }
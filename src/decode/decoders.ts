@@ -0,0 +1,254 @@
+/**
+ * Response Decoders
+ *
+ * Runtime checks for API responses. Unknown enum values become `Unknown`
+ * instead of being passed off as a known status or category.
+ */
+
+import { ResponseDecodeError } from '../models/errors';
+import {
+  Feedback,
+  Comment,
+  VoteResponse,
+  SDKUser,
+  TrackedEvent,
+  FeedbackStatus,
+  FeedbackCategory,
+  DecodeConfig,
+  DecodeOptions,
+  WithDates
+} from '../models/types';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'string[]' | 'object' | 'status' | 'category';
+
+/**
+ * Expected fields of a response; a trailing `?` marks optional/nullable fields
+ */
+type Shape = Record<string, FieldKind | `${FieldKind}?`>;
+
+const FEEDBACK_SHAPE: Shape = {
+  id: 'string',
+  title: 'string',
+  description: 'string',
+  status: 'status',
+  category: 'category',
+  userId: 'string',
+  userEmail: 'string?',
+  voteCount: 'number',
+  hasVoted: 'boolean',
+  commentCount: 'number',
+  totalMrr: 'number?',
+  createdAt: 'date',
+  updatedAt: 'date',
+  rejectionReason: 'string?',
+  mergedIntoId: 'string?',
+  mergedAt: 'date?',
+  mergedFeedbackIds: 'string[]?'
+};
+
+const COMMENT_SHAPE: Shape = {
+  id: 'string',
+  content: 'string',
+  userId: 'string',
+  isAdmin: 'boolean',
+  createdAt: 'date'
+};
+
+const VOTE_RESPONSE_SHAPE: Shape = {
+  feedbackId: 'string',
+  voteCount: 'number',
+  hasVoted: 'boolean'
+};
+
+const SDK_USER_SHAPE: Shape = {
+  id: 'string',
+  userId: 'string',
+  mrr: 'number?',
+  firstSeenAt: 'date',
+  lastSeenAt: 'date'
+};
+
+const TRACKED_EVENT_SHAPE: Shape = {
+  id: 'string',
+  eventName: 'string',
+  userId: 'string',
+  properties: 'object?',
+  createdAt: 'date'
+};
+
+const STATUSES: readonly string[] = Object.values(FeedbackStatus);
+const CATEGORIES: readonly string[] = Object.values(FeedbackCategory);
+
+/**
+ * Decode a feedback item
+ *
+ * @param value - Response body (already camelCased)
+ * @param options - `strict` throws on malformed responses, `dates` converts date fields
+ * @throws ResponseDecodeError in strict mode if the response doesn't match
+ *
+ * @example
+ * ```ts
+ * const feedback = decodeFeedback(json, { dates: true });
+ * feedback.createdAt.getFullYear();
+ * if (feedback.status === FeedbackStatus.Unknown) {
+ *   // Status added after this SDK version
+ * }
+ * ```
+ */
+export function decodeFeedback(value: unknown, options: DecodeOptions & { dates: true }): WithDates<Feedback>;
+export function decodeFeedback(value: unknown, options?: DecodeConfig & { dates?: false }): Feedback;
+export function decodeFeedback(value: unknown, options: DecodeOptions = {}): Feedback | WithDates<Feedback> {
+  return decode(value, FEEDBACK_SHAPE, 'Feedback', options) as Feedback;
+}
+
+/**
+ * Decode a comment
+ *
+ * @throws ResponseDecodeError in strict mode if the response doesn't match
+ */
+export function decodeComment(value: unknown, options: DecodeOptions & { dates: true }): WithDates<Comment>;
+export function decodeComment(value: unknown, options?: DecodeConfig & { dates?: false }): Comment;
+export function decodeComment(value: unknown, options: DecodeOptions = {}): Comment | WithDates<Comment> {
+  return decode(value, COMMENT_SHAPE, 'Comment', options) as Comment;
+}
+
+/**
+ * Decode a vote/unvote response
+ *
+ * @throws ResponseDecodeError in strict mode if the response doesn't match
+ */
+export function decodeVoteResponse(value: unknown, options: DecodeConfig = {}): VoteResponse {
+  return decode(value, VOTE_RESPONSE_SHAPE, 'VoteResponse', options) as VoteResponse;
+}
+
+/**
+ * Decode an SDK user
+ *
+ * @throws ResponseDecodeError in strict mode if the response doesn't match
+ */
+export function decodeSDKUser(value: unknown, options: DecodeOptions & { dates: true }): WithDates<SDKUser>;
+export function decodeSDKUser(value: unknown, options?: DecodeConfig & { dates?: false }): SDKUser;
+export function decodeSDKUser(value: unknown, options: DecodeOptions = {}): SDKUser | WithDates<SDKUser> {
+  return decode(value, SDK_USER_SHAPE, 'SDKUser', options) as SDKUser;
+}
+
+/**
+ * Decode a tracked event
+ *
+ * @throws ResponseDecodeError in strict mode if the response doesn't match
+ */
+export function decodeTrackedEvent(value: unknown, options: DecodeOptions & { dates: true }): WithDates<TrackedEvent>;
+export function decodeTrackedEvent(value: unknown, options?: DecodeConfig & { dates?: false }): TrackedEvent;
+export function decodeTrackedEvent(
+  value: unknown,
+  options: DecodeOptions = {}
+): TrackedEvent | WithDates<TrackedEvent> {
+  return decode(value, TRACKED_EVENT_SHAPE, 'TrackedEvent', options) as TrackedEvent;
+}
+
+/**
+ * Decode a value when decoding is enabled, otherwise pass it through
+ */
+export function decodeWith<T>(
+  decoder: (value: unknown, options?: DecodeConfig) => T,
+  value: unknown,
+  config: DecodeOptions | null
+): T {
+  return config ? decoder(value, config) : (value as T);
+}
+
+/**
+ * Decode every item of an array response when decoding is enabled
+ *
+ * @throws ResponseDecodeError in strict mode if the response is not an array
+ */
+export function decodeListWith<T>(
+  decoder: (value: unknown, options?: DecodeConfig) => T,
+  values: unknown,
+  config: DecodeOptions | null
+): T[] {
+  if (!config) {
+    return values as T[];
+  }
+  if (!Array.isArray(values)) {
+    if (config.strict) {
+      throw new ResponseDecodeError('Invalid response: expected an array', ['response: expected an array']);
+    }
+    return values as T[];
+  }
+  return values.map((value) => decoder(value, config));
+}
+
+function decode(value: unknown, shape: Shape, name: string, options: DecodeOptions): unknown {
+  const issues: string[] = [];
+  const result = decodeShape(value, shape, options, issues);
+
+  if (issues.length > 0 && options.strict) {
+    throw new ResponseDecodeError(`Invalid ${name} response: ${issues.join('; ')}`, issues);
+  }
+  return result;
+}
+
+function decodeShape(value: unknown, shape: Shape, options: DecodeOptions, issues: string[]): unknown {
+  if (!isRecord(value)) {
+    issues.push('response: expected an object');
+    return value;
+  }
+
+  const result: Record<string, unknown> = { ...value };
+
+  for (const [key, spec] of Object.entries(shape)) {
+    const optional = spec.endsWith('?');
+    const kind = (optional ? spec.slice(0, -1) : spec) as FieldKind;
+    const field = value[key];
+
+    if (kind === 'status' || kind === 'category') {
+      const known = kind === 'status' ? STATUSES : CATEGORIES;
+      if (typeof field !== 'string') {
+        issues.push(`${key}: expected a string`);
+      }
+      if (typeof field !== 'string' || !known.includes(field)) {
+        // Values added by newer servers are reported as Unknown, not as an error
+        result[key] = kind === 'status' ? FeedbackStatus.Unknown : FeedbackCategory.Unknown;
+      }
+      continue;
+    }
+
+    if (field === undefined || field === null) {
+      if (!optional) {
+        issues.push(`${key}: missing`);
+      }
+      continue;
+    }
+
+    if (!matches(kind, field)) {
+      issues.push(`${key}: expected ${kind === 'date' ? 'a date string' : kind}`);
+      continue;
+    }
+
+    if (kind === 'date' && options.dates) {
+      result[key] = new Date(field as string);
+    }
+  }
+
+  return result;
+}
+
+function matches(kind: FieldKind, value: unknown): boolean {
+  switch (kind) {
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'object':
+      return isRecord(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,63 @@
+/**
+ * Auto Tracker
+ *
+ * Emits the SDK view events on behalf of the API modules and UI components.
+ */
+
+import { AutoTrackConfig, AutoTrackEventName, TrackEventRequest } from '../models/types';
+
+/**
+ * Sends a tracked event; provided by the events API
+ */
+export type EventSender = (event: TrackEventRequest) => Promise<unknown>;
+
+/**
+ * Applies sampling, per-event opt-out and enrichment, then sends the event
+ *
+ * Tracking is fire-and-forget: failures never reach the API call that
+ * triggered the event.
+ */
+export class AutoTracker {
+  private sampleRate: number;
+
+  constructor(
+    private config: AutoTrackConfig,
+    private sender: EventSender,
+    private getUserId: () => string | undefined,
+    private random: () => number = Math.random
+  ) {
+    this.sampleRate = Math.min(Math.max(config.sampleRate ?? 1, 0), 1);
+  }
+
+  /**
+   * Track a view event
+   *
+   * @param eventName - The SDK event
+   * @param properties - Event properties; undefined values are left out
+   */
+  record(eventName: AutoTrackEventName, properties: Record<string, unknown> = {}): void {
+    const userId = this.getUserId();
+    if (!userId || this.config.events?.[eventName] === false) {
+      return;
+    }
+    if (this.sampleRate < 1 && this.random() >= this.sampleRate) {
+      return;
+    }
+
+    let event: TrackEventRequest | null = { eventName, userId, properties: definedOnly(properties) };
+    if (this.config.enrich) {
+      try {
+        event = this.config.enrich(event);
+      } catch {
+        return;
+      }
+    }
+    if (event) {
+      this.sender(event).catch(() => undefined);
+    }
+  }
+}
+
+function definedOnly(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,194 @@
+/**
+ * Event Buffer
+ *
+ * Collects tracked events in memory and sends them in batches.
+ */
+
+import { FeedbackKitError, NetworkError } from '../models/errors';
+import {
+  EventBufferConfig,
+  TrackEventRequest,
+  DEFAULT_EVENT_BUFFER_CONFIG
+} from '../models/types';
+import { generateId } from '../utils/id';
+
+/**
+ * Sends a batch of events; provided by the events API
+ */
+export type BatchSender = (
+  events: TrackEventRequest[],
+  options: { idempotencyKey: string; keepalive: boolean; concurrency?: number }
+) => Promise<unknown>;
+
+/**
+ * A batch that failed and is waiting for the next flush
+ */
+interface PendingBatch {
+  events: TrackEventRequest[];
+  idempotencyKey: string;
+  failures: number;
+}
+
+/**
+ * In-memory event buffer
+ *
+ * Each batch carries an idempotency key, so the HTTP retry policy may retry
+ * it safely and a batch re-sent on a later flush is not double counted.
+ * Batches are sent through `events.trackBatch`, one request per event (the
+ * API has no batch endpoint), a few at a time.
+ *
+ * On page hide the buffer is flushed with `fetch(..., { keepalive: true })`.
+ * `navigator.sendBeacon` is not used because it cannot send the
+ * `X-API-Key` header.
+ */
+export class EventBuffer {
+  private events: TrackEventRequest[] = [];
+  private retries: PendingBatch[] = [];
+  private flushing: Promise<void> | null = null;
+  private cleanup: Array<() => void> = [];
+  private maxBatchSize: number;
+  private maxRetries: number;
+
+  constructor(
+    private config: EventBufferConfig,
+    private sender: BatchSender
+  ) {
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_EVENT_BUFFER_CONFIG.maxBatchSize;
+    this.maxRetries = config.maxRetries ?? DEFAULT_EVENT_BUFFER_CONFIG.maxRetries;
+
+    const interval = config.flushInterval ?? DEFAULT_EVENT_BUFFER_CONFIG.flushInterval;
+    if (interval > 0) {
+      const timer = setInterval(() => void this.flush(), interval);
+      // Don't keep Node processes alive just for the buffer
+      (timer as { unref?: () => void }).unref?.();
+      this.cleanup.push(() => clearInterval(timer));
+    }
+
+    if (config.flushOnExit ?? DEFAULT_EVENT_BUFFER_CONFIG.flushOnExit) {
+      this.listenForExit();
+    }
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  get size(): number {
+    return this.events.length + this.retries.reduce((sum, batch) => sum + batch.events.length, 0);
+  }
+
+  /**
+   * Add an event to the buffer
+   *
+   * Triggers a flush once the buffer reaches `maxBatchSize`.
+   */
+  add(event: TrackEventRequest): void {
+    this.events.push(event);
+    if (this.events.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send all buffered events
+   *
+   * Failed batches are kept for the next flush until `maxRetries` is
+   * reached. Resolves once every batch has been sent or re-buffered.
+   */
+  flush(options: { keepalive?: boolean } = {}): Promise<void> {
+    // Chain onto a running flush so events added meanwhile are sent too
+    const previous = this.flushing ?? Promise.resolve();
+    const current = previous.then(() => this.send(options.keepalive ?? false));
+    this.flushing = current.finally(() => {
+      if (this.flushing === current) {
+        this.flushing = null;
+      }
+    });
+    return current;
+  }
+
+  /**
+   * Stop the flush timer and exit listeners
+   */
+  destroy(): void {
+    this.cleanup.forEach((fn) => fn());
+    this.cleanup = [];
+  }
+
+  private async send(keepalive: boolean): Promise<void> {
+    const batches = this.retries;
+    this.retries = [];
+
+    while (this.events.length > 0) {
+      batches.push({
+        events: this.events.splice(0, this.maxBatchSize),
+        idempotencyKey: generateId(),
+        failures: 0
+      });
+    }
+
+    for (const batch of batches) {
+      try {
+        await this.sender(batch.events, {
+          idempotencyKey: batch.idempotencyKey,
+          keepalive,
+          // On page hide, requests not started before the page is gone are lost
+          concurrency: keepalive ? batch.events.length : undefined
+        });
+      } catch (error) {
+        batch.failures++;
+        if (isTransient(error) && batch.failures <= this.maxRetries) {
+          this.retries.push(batch);
+        } else {
+          this.config.onError?.(
+            error instanceof Error ? error : new Error(String(error)),
+            batch.events
+          );
+        }
+      }
+    }
+  }
+
+  private listenForExit(): void {
+    const doc = (globalThis as { document?: Document }).document;
+    const win = globalThis as { addEventListener?: typeof addEventListener; removeEventListener?: typeof removeEventListener };
+
+    if (doc && typeof win.addEventListener === 'function') {
+      const onHide = () => {
+        if (doc.visibilityState === 'hidden') {
+          void this.flush({ keepalive: true });
+        }
+      };
+      const onPageHide = () => void this.flush({ keepalive: true });
+
+      doc.addEventListener('visibilitychange', onHide);
+      win.addEventListener('pagehide', onPageHide);
+      this.cleanup.push(() => {
+        doc.removeEventListener('visibilitychange', onHide);
+        win.removeEventListener?.('pagehide', onPageHide);
+      });
+      return;
+    }
+
+    const proc = (globalThis as { process?: NodeJS.Process }).process;
+    if (proc && typeof proc.on === 'function') {
+      // beforeExit lets async work run; the flush keeps the loop alive until done
+      const onBeforeExit = () => {
+        if (this.size > 0) {
+          void this.flush();
+        }
+      };
+      proc.on('beforeExit', onBeforeExit);
+      this.cleanup.push(() => proc.off('beforeExit', onBeforeExit));
+    }
+  }
+}
+
+/**
+ * Whether a failed batch is worth sending again later
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof FeedbackKitError && (error.statusCode === 429 || error.statusCode >= 500);
+}
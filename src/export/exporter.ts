@@ -0,0 +1,271 @@
+/**
+ * Feedback Export
+ *
+ * Streams feedback (and optionally comments) as CSV, JSON Lines or
+ * flattened JSON for spreadsheets and planning tools.
+ */
+
+import { FeedbackApi } from '../api/feedback';
+import { CommentsApi } from '../api/comments';
+import { CallOptions, Comment, Feedback, ListFeedbackOptions } from '../models/types';
+
+/**
+ * Output format
+ *
+ * - `csv`: RFC 4180 CSV with a header row; cells that a spreadsheet would
+ *   run as a formula are prefixed with `'` unless `escapeFormulas` is false
+ * - `jsonl`: one JSON object per line; comments stay nested
+ * - `json`: a JSON array of flat objects (arrays and comments joined into strings)
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'json';
+
+/**
+ * Exportable column: any feedback field, or `comments` for the comment thread
+ */
+export type ExportColumn = keyof Feedback | 'comments';
+
+/**
+ * Export options
+ */
+export interface ExportOptions {
+  /** Output format */
+  format: ExportFormat;
+  /** Columns in output order (defaults to `DEFAULT_EXPORT_COLUMNS`) */
+  columns?: ExportColumn[];
+  /** Filter and sort options for `feedback.iterate` */
+  filter?: Omit<ListFeedbackOptions, 'cursor' | 'limit' | 'includeMerged'>;
+  /** Include items merged into others (default true) */
+  includeMerged?: boolean;
+  /** Fetch each item's comments and add a `comments` column (default false) */
+  includeComments?: boolean;
+  /** Maximum concurrent comment requests (default 4) */
+  concurrency?: number;
+  /** Items fetched per page (default 100) */
+  pageSize?: number;
+  /** Start CSV output with a UTF-8 byte order mark so Excel detects the encoding */
+  bom?: boolean;
+  /**
+   * Prefix CSV cells starting with `=`, `+`, `-`, `@`, tab or carriage
+   * return with `'`, so spreadsheets show them as text instead of running
+   * them as formulas (default true). Numbers are left as they are.
+   */
+  escapeFormulas?: boolean;
+  /** Cancels the export */
+  signal?: AbortSignal;
+}
+
+/**
+ * Columns exported when none are selected
+ */
+export const DEFAULT_EXPORT_COLUMNS: readonly ExportColumn[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'category',
+  'voteCount',
+  'commentCount',
+  'totalMrr',
+  'userId',
+  'createdAt',
+  'updatedAt',
+  'rejectionReason',
+  'mergedIntoId'
+];
+
+/**
+ * A feedback item with its comments, if requested
+ */
+interface ExportRecord {
+  feedback: Feedback;
+  comments?: Comment[];
+}
+
+/**
+ * Exports feedback in spreadsheet-friendly formats
+ *
+ * Output is produced one record at a time, so large projects are never held
+ * in memory: pages are fetched as the output is consumed and comment
+ * requests run ahead by at most `concurrency` items.
+ *
+ * @example
+ * ```ts
+ * import { createWriteStream } from 'fs';
+ * import { Readable } from 'stream';
+ *
+ * const exporter = new FeedbackExporter(feedbackKit.feedback, feedbackKit.comments);
+ *
+ * Readable.from(exporter.stream({
+ *   format: 'csv',
+ *   columns: ['title', 'status', 'voteCount', 'totalMrr', 'rejectionReason'],
+ *   includeComments: true
+ * })).pipe(createWriteStream('feedback.csv'));
+ * ```
+ */
+export class FeedbackExporter {
+  constructor(
+    private feedbackApi: FeedbackApi,
+    private commentsApi: CommentsApi
+  ) {}
+
+  /**
+   * Stream the export as text chunks
+   *
+   * Each chunk is a complete line (or the JSON array brackets).
+   */
+  async *stream(options: ExportOptions): AsyncGenerator<string, void, undefined> {
+    const columns = resolveColumns(options);
+    const escapeFormulas = options.escapeFormulas ?? true;
+
+    if (options.format === 'csv') {
+      yield `${options.bom ? '\uFEFF' : ''}${csvRow(columns, escapeFormulas)}`;
+    } else if (options.format === 'json') {
+      yield '[\n';
+    }
+
+    let first = true;
+    for await (const record of this.records(options, columns.includes('comments'))) {
+      switch (options.format) {
+        case 'csv':
+          yield csvRow(columns.map((column) => flatten(record, column)), escapeFormulas);
+          break;
+        case 'jsonl':
+          yield `${JSON.stringify(pick(record, columns))}\n`;
+          break;
+        case 'json':
+          yield `${first ? '' : ',\n'}${JSON.stringify(pickFlat(record, columns))}`;
+          break;
+      }
+      first = false;
+    }
+
+    if (options.format === 'json') {
+      yield first ? ']\n' : '\n]\n';
+    }
+  }
+
+  /**
+   * Run the export and return the whole output
+   *
+   * Convenient for small projects; prefer `stream` for large ones.
+   */
+  async toString(options: ExportOptions): Promise<string> {
+    let output = '';
+    for await (const chunk of this.stream(options)) {
+      output += chunk;
+    }
+    return output;
+  }
+
+  /**
+   * Yield feedback in list order, fetching comments with bounded concurrency
+   */
+  private async *records(options: ExportOptions, withComments: boolean): AsyncGenerator<ExportRecord> {
+    const callOptions: CallOptions = { signal: options.signal };
+    const items = this.feedbackApi.iterate(
+      {
+        ...options.filter,
+        includeMerged: options.includeMerged ?? true,
+        limit: options.pageSize ?? 100
+      },
+      callOptions
+    );
+
+    if (!withComments) {
+      for await (const feedback of items) {
+        yield { feedback };
+      }
+      return;
+    }
+
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    const pending: Array<Promise<ExportRecord>> = [];
+
+    for await (const feedback of items) {
+      pending.push(
+        this.commentsApi.list(feedback.id, callOptions).then((comments) => ({ feedback, comments }))
+      );
+      // Avoid unhandled rejections while earlier items are still being yielded
+      pending[pending.length - 1].catch(() => undefined);
+
+      if (pending.length >= concurrency) {
+        yield await (pending.shift() as Promise<ExportRecord>);
+      }
+    }
+
+    for (const record of pending) {
+      yield await record;
+    }
+  }
+}
+
+function resolveColumns(options: ExportOptions): ExportColumn[] {
+  const columns = [...(options.columns ?? DEFAULT_EXPORT_COLUMNS)];
+  if (options.includeComments && !columns.includes('comments')) {
+    columns.push('comments');
+  }
+  return columns;
+}
+
+/**
+ * Selected columns with nested values kept (for JSON Lines)
+ */
+function pick(record: ExportRecord, columns: ExportColumn[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const column of columns) {
+    result[column] = column === 'comments' ? record.comments ?? [] : record.feedback[column] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Selected columns as strings and numbers (for flattened JSON)
+ */
+function pickFlat(record: ExportRecord, columns: ExportColumn[]): Record<string, string | number | boolean | null> {
+  const result: Record<string, string | number | boolean | null> = {};
+  for (const column of columns) {
+    const value = column === 'comments' ? undefined : record.feedback[column];
+    result[column] = typeof value === 'number' || typeof value === 'boolean' ? value : flatten(record, column) || null;
+  }
+  return result;
+}
+
+/**
+ * A column value as a single string
+ *
+ * Arrays are joined with `;`; comments become one `user: content` line each.
+ */
+function flatten(record: ExportRecord, column: ExportColumn): string {
+  if (column === 'comments') {
+    return (record.comments ?? [])
+      .map((comment) => `${comment.isAdmin ? `${comment.userId} (admin)` : comment.userId}: ${comment.content}`)
+      .join('\n');
+  }
+
+  const value = record.feedback[column];
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(';') : String(value);
+}
+
+/**
+ * Format one CSV row (RFC 4180)
+ */
+function csvRow(values: readonly string[], escapeFormulas: boolean): string {
+  return `${values.map((value) => csvField(escapeFormulas ? neutralizeFormula(value) : value)).join(',')}\r\n`;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Prefix a cell that a spreadsheet would treat as a formula (CSV injection)
+ */
+function neutralizeFormula(value: string): string {
+  if (!/^[=+\-@\t\r]/.test(value) || /^[+-]?\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+}
@@ -8,18 +8,115 @@
 
 // Main client
 export { FeedbackKit } from './client';
+export type { SessionTraits } from './session/session';
+
+// Transport
+export { FetchTransport } from './utils/transport';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchFunction
+} from './utils/transport';
+
+// Interceptors
+export type {
+  Interceptor,
+  InterceptedRequest,
+  InterceptedResponse
+} from './utils/interceptors';
+
+// Offline queue and storage
+export { OfflineQueue } from './offline/queue';
+export {
+  MemoryStorage,
+  LocalStorageAdapter,
+  CookieStorage,
+  IndexedDBStorage
+} from './storage/adapters';
+export type { StorageAdapter, CookieStorageOptions } from './storage/adapters';
+
+// Response cache
+export { ResponseCache } from './cache/response-cache';
+export type { FeedbackPatch } from './cache/response-cache';
+
+// Feedback store
+export {
+  FeedbackStore,
+  selectFeedbackList,
+  selectFeedbackById,
+  canVote
+} from './store/feedback-store';
+export type { FeedbackStoreState, FeedbackStoreListener } from './store/feedback-store';
+
+// Export
+export { FeedbackExporter, DEFAULT_EXPORT_COLUMNS } from './export/exporter';
+export type { ExportFormat, ExportColumn, ExportOptions } from './export/exporter';
+
+// Roadmap and changelog
+export {
+  RoadmapGenerator,
+  buildRoadmap,
+  buildChangelog,
+  ROADMAP_COLUMNS
+} from './roadmap/roadmap';
+export {
+  renderRoadmapMarkdown,
+  renderRoadmapHtml,
+  renderChangelogMarkdown,
+  renderChangelogFeed
+} from './roadmap/render';
+export type {
+  Roadmap,
+  RoadmapColumn,
+  RoadmapColumnId,
+  RoadmapItem,
+  RoadmapOptions,
+  RoadmapRanking,
+  Changelog
+} from './roadmap/roadmap';
+export type { FeedOptions } from './roadmap/render';
+
+// Validation
+export {
+  validateCreateFeedback,
+  validateCreateComment,
+  validateVote,
+  validateRegisterUser,
+  validateAlias,
+  validateApiKey,
+  VALIDATION_LIMITS
+} from './utils/validation';
+
+// Response decoding
+export {
+  decodeFeedback,
+  decodeComment,
+  decodeVoteResponse,
+  decodeSDKUser,
+  decodeTrackedEvent
+} from './decode/decoders';
 
 // Enums (runtime values)
-export { FeedbackStatus, FeedbackCategory } from './models/types';
+export { FeedbackStatus, FeedbackCategory, FeedbackSort } from './models/types';
 
-// Config constant
-export { DEFAULT_CONFIG } from './models/types';
+// Config constants
+export {
+  DEFAULT_CONFIG,
+  DEFAULT_RETRY_CONFIG,
+  DEFAULT_OFFLINE_CONFIG,
+  DEFAULT_EVENT_BUFFER_CONFIG,
+  DEFAULT_CACHE_CONFIG,
+  DEFAULT_ANONYMOUS_ID_CONFIG,
+  DEFAULT_LOGGER_CONFIG
+} from './models/types';
 
 // Types (type-only exports)
 export type {
   Feedback,
   CreateFeedbackRequest,
   ListFeedbackOptions,
+  Page,
   VoteRequest,
   UnvoteRequest,
   VoteResponse,
@@ -27,9 +124,40 @@ export type {
   CreateCommentRequest,
   SDKUser,
   RegisterUserRequest,
+  AliasUserRequest,
   TrackedEvent,
   TrackEventRequest,
-  FeedbackKitConfig
+  FeedbackKitConfig,
+  HttpMethod,
+  CallOptions,
+  RetryConfig,
+  RetryAttempt,
+  OfflineConfig,
+  QueuedRequest,
+  QueueOutcome,
+  QueueState,
+  EventBufferConfig,
+  EventBufferOption,
+  NoEventBuffer,
+  TrackResult,
+  TrackBatchOptions,
+  AutoTrackConfig,
+  AutoTrackEventName,
+  CacheConfig,
+  AnonymousIdConfig,
+  LoggerConfig,
+  LogLevel,
+  LogRecord,
+  LogSink,
+  Tracer,
+  TraceSpan,
+  Metrics,
+  AttributeValue,
+  DecodeConfig,
+  DecodeOptions,
+  WithDates,
+  WithDatesIf,
+  FieldError
 } from './models/types';
 
 // Errors
@@ -41,8 +169,15 @@ export {
   NotFoundError,
   ConflictError,
   ValidationError,
-  NetworkError
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  AbortedError,
+  QueuedError,
+  ResponseDecodeError
 } from './models/errors';
+export type { ErrorContext } from './models/errors';
 
 // Event constants
 export { SDKEvents } from './api/events';
@@ -2,18 +2,51 @@
  * FeedbackKit Error Types
  */
 
+import { QueuedRequest, FieldError, HttpMethod } from './types';
+
+/**
+ * Request and response details attached to an error
+ */
+export interface ErrorContext {
+  /** HTTP method of the failed request */
+  method?: HttpMethod;
+  /** API path of the failed request (e.g. `/feedbacks/fb_1/votes`) */
+  path?: string;
+  /** Response headers */
+  headers?: { get(name: string): string | null };
+  /** Response body (parsed JSON, or text) */
+  body?: unknown;
+}
+
 /**
  * Base error class for all FeedbackKit errors
  */
 export class FeedbackKitError extends Error {
   public readonly statusCode: number;
   public readonly code: string;
+  /** HTTP method of the failed request, if one was made */
+  public readonly method: HttpMethod | undefined;
+  /** API path of the failed request, if one was made */
+  public readonly path: string | undefined;
+  /** Response headers, or null if no response was received */
+  public readonly headers: { get(name: string): string | null } | null;
+  /** Server request ID (`X-Request-Id`), for support requests */
+  public readonly requestId: string | undefined;
+  /** Response body, if a response was received */
+  public readonly body: unknown;
+  /** Whether sending the same request again may succeed */
+  public readonly retryable: boolean = false;
 
-  constructor(message: string, statusCode: number, code: string) {
+  constructor(message: string, statusCode: number, code: string, context: ErrorContext = {}) {
     super(message);
     this.name = 'FeedbackKitError';
     this.statusCode = statusCode;
     this.code = code;
+    this.method = context.method;
+    this.path = context.path;
+    this.headers = context.headers ?? null;
+    this.requestId = context.headers?.get('x-request-id') ?? undefined;
+    this.body = context.body;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
@@ -26,8 +59,8 @@ export class FeedbackKitError extends Error {
  * Thrown when the API key is missing or invalid (401)
  */
 export class AuthenticationError extends FeedbackKitError {
-  constructor(message = 'Invalid or missing API key') {
-    super(message, 401, 'UNAUTHORIZED');
+  constructor(message = 'Invalid or missing API key', context?: ErrorContext) {
+    super(message, 401, 'UNAUTHORIZED', context);
     this.name = 'AuthenticationError';
   }
 }
@@ -36,8 +69,8 @@ export class AuthenticationError extends FeedbackKitError {
  * Thrown when a subscription tier limit is exceeded (402)
  */
 export class PaymentRequiredError extends FeedbackKitError {
-  constructor(message = 'Subscription limit exceeded. Please upgrade your plan.') {
-    super(message, 402, 'PAYMENT_REQUIRED');
+  constructor(message = 'Subscription limit exceeded. Please upgrade your plan.', context?: ErrorContext) {
+    super(message, 402, 'PAYMENT_REQUIRED', context);
     this.name = 'PaymentRequiredError';
   }
 }
@@ -48,8 +81,8 @@ export class PaymentRequiredError extends FeedbackKitError {
  * - Voting on completed/rejected feedback is blocked
  */
 export class ForbiddenError extends FeedbackKitError {
-  constructor(message = 'Action not allowed') {
-    super(message, 403, 'FORBIDDEN');
+  constructor(message = 'Action not allowed', context?: ErrorContext) {
+    super(message, 403, 'FORBIDDEN', context);
     this.name = 'ForbiddenError';
   }
 }
@@ -58,8 +91,8 @@ export class ForbiddenError extends FeedbackKitError {
  * Thrown when a resource is not found (404)
  */
 export class NotFoundError extends FeedbackKitError {
-  constructor(message = 'Resource not found') {
-    super(message, 404, 'NOT_FOUND');
+  constructor(message = 'Resource not found', context?: ErrorContext) {
+    super(message, 404, 'NOT_FOUND', context);
     this.name = 'NotFoundError';
   }
 }
@@ -68,8 +101,8 @@ export class NotFoundError extends FeedbackKitError {
  * Thrown when there's a conflict, such as duplicate vote (409)
  */
 export class ConflictError extends FeedbackKitError {
-  constructor(message = 'Conflict: action already performed') {
-    super(message, 409, 'CONFLICT');
+  constructor(message = 'Conflict: action already performed', context?: ErrorContext) {
+    super(message, 409, 'CONFLICT', context);
     this.name = 'ConflictError';
   }
 }
@@ -78,9 +111,41 @@ export class ConflictError extends FeedbackKitError {
  * Thrown when request validation fails (400)
  */
 export class ValidationError extends FeedbackKitError {
-  constructor(message = 'Validation error') {
-    super(message, 400, 'BAD_REQUEST');
+  /** Invalid fields, when known (always set for client-side validation) */
+  public readonly fields: FieldError[];
+
+  constructor(message = 'Validation error', fields: FieldError[] = [], context?: ErrorContext) {
+    super(message, 400, 'BAD_REQUEST', context);
     this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+/**
+ * Thrown when too many requests were made (429)
+ */
+export class RateLimitError extends FeedbackKitError {
+  public readonly retryable = true;
+  /** How long the server asked to wait before retrying, in ms (from `Retry-After`) */
+  public readonly retryAfter: number | undefined;
+
+  constructor(message = 'Too many requests', retryAfter?: number, context?: ErrorContext) {
+    super(message, 429, 'RATE_LIMITED', context);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when the server fails to handle a request (5xx)
+ */
+export class ServerError extends FeedbackKitError {
+  /** 501 Not Implemented won't succeed on retry */
+  public readonly retryable = this.statusCode !== 501;
+
+  constructor(message = 'Server error', statusCode = 500, context?: ErrorContext) {
+    super(message, statusCode, 'SERVER_ERROR', context);
+    this.name = 'ServerError';
   }
 }
 
@@ -88,12 +153,64 @@ export class ValidationError extends FeedbackKitError {
  * Thrown when a network error occurs
  */
 export class NetworkError extends FeedbackKitError {
-  constructor(message = 'Network error') {
-    super(message, 0, 'NETWORK_ERROR');
+  public readonly retryable = true;
+
+  constructor(message = 'Network error', context?: ErrorContext) {
+    super(message, 0, 'NETWORK_ERROR', context);
     this.name = 'NetworkError';
   }
 }
 
+/**
+ * Thrown when a request doesn't complete within its timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message = 'Request timeout', context?: ErrorContext) {
+    super(message, context);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when the caller cancels a request through its AbortSignal
+ */
+export class AbortedError extends FeedbackKitError {
+  constructor(message = 'Request aborted', context?: ErrorContext) {
+    super(message, 0, 'ABORTED', context);
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Thrown when a write failed with a network error and was stored in the
+ * offline queue for replay
+ */
+export class QueuedError extends NetworkError {
+  /** The queued request, or null if it cancelled out a pending one */
+  public readonly queuedRequest: QueuedRequest | null;
+
+  constructor(queuedRequest: QueuedRequest | null, message = 'Request queued for replay', context?: ErrorContext) {
+    super(message, context);
+    this.name = 'QueuedError';
+    this.queuedRequest = queuedRequest;
+  }
+}
+
+/**
+ * Thrown when a successful response isn't valid JSON, or in strict decoding
+ * mode when it doesn't have the expected shape
+ */
+export class ResponseDecodeError extends FeedbackKitError {
+  /** What was wrong, one entry per field (e.g. `voteCount: expected number`) */
+  public readonly issues: string[];
+
+  constructor(message = 'Invalid response', issues: string[] = [], context?: ErrorContext) {
+    super(message, 0, 'DECODE_ERROR', context);
+    this.name = 'ResponseDecodeError';
+    this.issues = issues;
+  }
+}
+
 /**
  * API error response structure
  */
@@ -102,29 +219,67 @@ interface ApiErrorResponse {
   reason: string;
 }
 
+/**
+ * Whether a value is a FeedbackKitError (or a subclass)
+ *
+ * Checked by shape as well as `instanceof`, so errors thrown by another copy
+ * of the SDK (such as the CommonJS build loaded next to the ES module one)
+ * are recognized too.
+ */
+export function isFeedbackKitError(error: unknown): error is FeedbackKitError {
+  if (error instanceof FeedbackKitError) {
+    return true;
+  }
+  const candidate = error as Partial<FeedbackKitError> | null;
+  return (
+    error instanceof Error &&
+    typeof candidate?.code === 'string' &&
+    typeof candidate.statusCode === 'number' &&
+    typeof candidate.retryable === 'boolean'
+  );
+}
+
+/**
+ * Pass a FeedbackKitError through; wrap anything else thrown in one
+ */
+export function toFeedbackKitError(error: unknown): FeedbackKitError {
+  return isFeedbackKitError(error)
+    ? error
+    : new FeedbackKitError(error instanceof Error ? error.message : String(error), 0, 'UNKNOWN_ERROR');
+}
+
 /**
  * Creates the appropriate error based on HTTP status code
+ *
+ * @param retryAfter - Parsed `Retry-After` header in ms, for 429 responses
  */
 export function createErrorFromResponse(
   statusCode: number,
-  body?: ApiErrorResponse | string
+  body?: ApiErrorResponse | string,
+  context: ErrorContext = {},
+  retryAfter?: number
 ): FeedbackKitError {
-  const message = typeof body === 'object' ? body.reason : body || 'Unknown error';
+  const message = (typeof body === 'object' ? body?.reason : body) || 'Unknown error';
+  const details: ErrorContext = { body, ...context };
 
   switch (statusCode) {
     case 400:
-      return new ValidationError(message);
+      return new ValidationError(message, [], details);
     case 401:
-      return new AuthenticationError(message);
+      return new AuthenticationError(message, details);
     case 402:
-      return new PaymentRequiredError(message);
+      return new PaymentRequiredError(message, details);
     case 403:
-      return new ForbiddenError(message);
+      return new ForbiddenError(message, details);
     case 404:
-      return new NotFoundError(message);
+      return new NotFoundError(message, details);
     case 409:
-      return new ConflictError(message);
+      return new ConflictError(message, details);
+    case 429:
+      return new RateLimitError(message, retryAfter, details);
     default:
-      return new FeedbackKitError(message, statusCode, 'SERVER_ERROR');
+      return statusCode >= 500
+        ? new ServerError(message, statusCode, details)
+        : new FeedbackKitError(message, statusCode, 'HTTP_ERROR', details);
   }
 }
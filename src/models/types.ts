@@ -3,6 +3,9 @@
  * Generated from OpenAPI specification
  */
 
+import { FetchFunction, Transport } from '../utils/transport';
+import { StorageAdapter } from '../storage/adapters';
+
 // ============================================================================
 // Enums
 // ============================================================================
@@ -16,7 +19,9 @@ export enum FeedbackStatus {
   InProgress = 'in_progress',
   TestFlight = 'testflight',
   Completed = 'completed',
-  Rejected = 'rejected'
+  Rejected = 'rejected',
+  /** A status this SDK version doesn't know (only produced by response decoding) */
+  Unknown = 'unknown'
 }
 
 /**
@@ -26,7 +31,23 @@ export enum FeedbackCategory {
   FeatureRequest = 'feature_request',
   BugReport = 'bug_report',
   Improvement = 'improvement',
-  Other = 'other'
+  Other = 'other',
+  /** A category this SDK version doesn't know (only produced by response decoding) */
+  Unknown = 'unknown'
+}
+
+/**
+ * Sort order for feedback lists
+ */
+export enum FeedbackSort {
+  /** Most votes first */
+  Votes = 'votes',
+  /** Newest first */
+  Newest = 'newest',
+  /** Most recently updated first */
+  RecentlyUpdated = 'updated',
+  /** Highest combined voter MRR first */
+  Mrr = 'mrr'
 }
 
 // ============================================================================
@@ -83,9 +104,9 @@ export interface CreateFeedbackRequest {
   description: string;
   /** Feedback category */
   category: FeedbackCategory;
-  /** Unique identifier of the submitting user */
-  userId: string;
-  /** Optional email for status update notifications */
+  /** Unique identifier of the submitting user (defaults to the identified user) */
+  userId?: string;
+  /** Optional email for status update notifications (defaults to the identified user's email) */
   userEmail?: string;
   /** Whether the user consents to join the project's mailing list */
   subscribeToMailingList?: boolean;
@@ -97,12 +118,30 @@ export interface CreateFeedbackRequest {
  * Options for listing feedback
  */
 export interface ListFeedbackOptions {
-  /** Filter by status */
-  status?: FeedbackStatus;
-  /** Filter by category */
-  category?: FeedbackCategory;
+  /** Filter by status (any of several when an array is given) */
+  status?: FeedbackStatus | FeedbackStatus[];
+  /** Filter by category (any of several when an array is given) */
+  category?: FeedbackCategory | FeedbackCategory[];
   /** Include merged feedback items */
   includeMerged?: boolean;
+  /** Sort order (defaults to votes) */
+  sort?: FeedbackSort;
+  /** Maximum number of items per page */
+  limit?: number;
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+}
+
+/**
+ * A page of results
+ */
+export interface Page<T> {
+  /** Items on this page */
+  items: T[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Total number of matching items, if reported by the server */
+  total?: number;
 }
 
 // ============================================================================
@@ -113,9 +152,9 @@ export interface ListFeedbackOptions {
  * Request to vote for a feedback item
  */
 export interface VoteRequest {
-  /** Unique identifier of the voting user */
-  userId: string;
-  /** Email for status change notifications */
+  /** Unique identifier of the voting user (defaults to the identified user) */
+  userId?: string;
+  /** Email for status change notifications (defaults to the identified user's email) */
   email?: string;
   /** Opt-in to receive email notifications when status changes */
   notifyStatusChange?: boolean;
@@ -129,8 +168,8 @@ export interface VoteRequest {
  * Request to remove a vote
  */
 export interface UnvoteRequest {
-  /** Unique identifier of the user removing their vote */
-  userId: string;
+  /** Unique identifier of the user removing their vote (defaults to the identified user) */
+  userId?: string;
 }
 
 /**
@@ -171,8 +210,8 @@ export interface Comment {
 export interface CreateCommentRequest {
   /** Comment text (1-2000 chars) */
   content: string;
-  /** Unique identifier of the commenting user */
-  userId: string;
+  /** Unique identifier of the commenting user (defaults to the identified user) */
+  userId?: string;
   /** Whether this comment is from an admin/developer */
   isAdmin?: boolean;
 }
@@ -201,12 +240,22 @@ export interface SDKUser {
  * Request to register/update an SDK user
  */
 export interface RegisterUserRequest {
-  /** Unique identifier of the SDK user */
-  userId: string;
+  /** Unique identifier of the SDK user (defaults to the identified user) */
+  userId?: string;
   /** Monthly Recurring Revenue (optional) */
   mrr?: number;
 }
 
+/**
+ * Request to merge an earlier user ID into another one
+ */
+export interface AliasUserRequest {
+  /** The earlier ID, e.g. an anonymous ID */
+  previousId: string;
+  /** The ID that takes over the earlier ID's votes, comments and feedback (defaults to the identified user) */
+  userId?: string;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -233,20 +282,408 @@ export interface TrackedEvent {
 export interface TrackEventRequest {
   /** Name of the event to track */
   eventName: string;
-  /** Unique identifier of the user */
-  userId: string;
+  /** Unique identifier of the user (defaults to the identified user) */
+  userId?: string;
   /** Optional key-value properties for the event */
   properties?: Record<string, unknown>;
 }
 
+// ============================================================================
+// Validation Types
+// ============================================================================
+
+/**
+ * A single invalid field
+ */
+export interface FieldError {
+  /** Request field name (e.g. `title`) */
+  field: string;
+  /** Machine-readable reason */
+  code: 'required' | 'too_long' | 'invalid_format' | 'invalid_value';
+  /** Human-readable message */
+  message: string;
+}
+
+// ============================================================================
+// Offline Queue Types
+// ============================================================================
+
+/**
+ * A write request stored in the offline queue
+ */
+export interface QueuedRequest {
+  /** Unique identifier of the queued item */
+  id: string;
+  /** HTTP method */
+  method: HttpMethod;
+  /** API path (e.g. `/feedbacks/{id}/votes`) */
+  path: string;
+  /** Request body */
+  body?: unknown;
+  /** Idempotency key sent with every replay; generated when queued if the request had none */
+  idempotencyKey?: string;
+  /** When the request was queued (ISO 8601) */
+  queuedAt: string;
+  /** Number of replay attempts so far */
+  attempts: number;
+}
+
+/**
+ * Final outcome of a queued request
+ *
+ * - `sent` - replayed successfully
+ * - `failed` - rejected permanently by the server (e.g. ForbiddenError)
+ * - `cancelled` - dropped because a later request cancelled it out
+ */
+export type QueueOutcome =
+  | { status: 'sent'; item: QueuedRequest; result: unknown }
+  | { status: 'failed'; item: QueuedRequest; error: Error }
+  | { status: 'cancelled'; item: QueuedRequest };
+
+/**
+ * Snapshot of the offline queue
+ */
+export interface QueueState {
+  /** Requests waiting to be replayed, oldest first */
+  pending: QueuedRequest[];
+  /** Whether a replay is in progress */
+  replaying: boolean;
+}
+
+/**
+ * Offline write queue configuration
+ */
+export interface OfflineConfig {
+  /** Where queued requests are persisted (defaults to memory) */
+  storage?: StorageAdapter;
+  /** Storage key for the queue */
+  storageKey?: string;
+  /** Replay when the browser comes back online (defaults to true) */
+  replayOnReconnect?: boolean;
+  /** Also try to replay on this interval in milliseconds (0 disables) */
+  replayInterval?: number;
+  /** Called once per queued request when its fate is known */
+  onOutcome?: (outcome: QueueOutcome) => void;
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
 
+/**
+ * HTTP methods used by the API
+ */
+export type HttpMethod = 'GET' | 'POST' | 'DELETE' | 'PATCH' | 'PUT';
+
+/**
+ * Runtime response decoding
+ */
+export interface DecodeConfig {
+  /** Throw ResponseDecodeError for malformed responses instead of passing them through */
+  strict?: boolean;
+}
+
+/**
+ * Options for the decode functions and the client's `decode` option
+ */
+export interface DecodeOptions<TDates extends boolean = boolean> extends DecodeConfig {
+  /** Convert date strings (`createdAt`, `updatedAt`, `mergedAt`, ...) to Date objects */
+  dates?: TDates;
+}
+
+/**
+ * Fields converted to Date objects by `dates: true`
+ */
+type DateField = 'createdAt' | 'updatedAt' | 'mergedAt' | 'firstSeenAt' | 'lastSeenAt';
+
+/**
+ * A response type with its date strings replaced by Date objects
+ */
+export type WithDates<T> = {
+  [K in keyof T]: K extends DateField ? Date | Exclude<T[K], string> : T[K];
+};
+
+/**
+ * A response type as returned by a client decoding with `dates: TDates`
+ */
+export type WithDatesIf<T, TDates extends boolean> = TDates extends true ? WithDates<T> : T;
+
+/**
+ * Options accepted by every API method
+ */
+export interface CallOptions {
+  /** Cancels the request; the call rejects with AbortedError */
+  signal?: AbortSignal;
+  /** Timeout for this call in milliseconds, overriding the client timeout */
+  timeout?: number;
+  /** Extra headers for this call */
+  headers?: Record<string, string>;
+  /** Sent as `Idempotency-Key`; lets the retry policy retry writes safely */
+  idempotencyKey?: string;
+  /** Share identical concurrent GET requests (defaults to true) */
+  dedupe?: boolean;
+}
+
+/**
+ * Information about a retry that is about to happen
+ */
+export interface RetryAttempt {
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  /** Delay in milliseconds before the next attempt */
+  delay: number;
+  /** HTTP method of the request */
+  method: HttpMethod;
+  /** API path of the request */
+  path: string;
+  /** HTTP status code of the failed attempt (absent for network errors) */
+  statusCode?: number;
+  /** The error raised by the failed attempt */
+  error: Error;
+}
+
+/**
+ * Retry policy for failed requests
+ *
+ * Network errors, timeouts and the configured status codes are retried with
+ * exponential backoff. `Retry-After` headers take precedence over backoff.
+ */
+export interface RetryConfig {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff */
+  baseDelay?: number;
+  /** Upper bound in milliseconds for a single delay */
+  maxDelay?: number;
+  /** Randomize delays ("full jitter") to avoid retry storms */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry */
+  retryStatusCodes?: number[];
+  /** HTTP methods that are retried without an idempotency key */
+  retryMethods?: HttpMethod[];
+  /** Called before each retry attempt */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Response cache configuration for feedback reads
+ */
+export interface CacheConfig {
+  /** How long a response is fresh, in milliseconds */
+  ttl?: number;
+  /** How long after `ttl` a stale response is served while refreshing, in milliseconds */
+  staleWhileRevalidate?: number;
+  /** Maximum number of cached responses */
+  maxEntries?: number;
+}
+
+/**
+ * Buffered event tracking configuration
+ *
+ * Events are collected in memory and sent in batches when the buffer is
+ * full, on an interval, on page hide and on process exit.
+ */
+export interface EventBufferConfig {
+  /** Flush as soon as this many events are buffered */
+  maxBatchSize?: number;
+  /** Flush interval in milliseconds */
+  flushInterval?: number;
+  /** How many flushes a failed batch is retried in before it is dropped */
+  maxRetries?: number;
+  /** Flush on page hide (browsers) and before process exit (Node) */
+  flushOnExit?: boolean;
+  /** Called when a batch is dropped */
+  onError?: (error: Error, events: TrackEventRequest[]) => void;
+}
+
+/**
+ * Value of the `eventBuffer` option
+ */
+export type EventBufferOption = boolean | EventBufferConfig;
+
+declare const noEventBuffer: unique symbol;
+
+/**
+ * Stands for an `eventBuffer` option that wasn't set
+ *
+ * Part of the default rather than the default itself: TypeScript only infers
+ * the option's type from object literals with callbacks (such as `onError`)
+ * when the default is the whole constraint.
+ */
+export interface NoEventBuffer {
+  readonly [noEventBuffer]: true;
+}
+
+/**
+ * What `events.track` resolves with on a client created with
+ * `eventBuffer: TBuffer`: null when events are buffered, `T` otherwise
+ */
+export type TrackResult<T, TBuffer> = [NoEventBuffer] extends [TBuffer]
+  ? T
+  : TBuffer extends false | undefined
+    ? T
+    : null;
+
+/**
+ * Options for `events.trackBatch`
+ */
+export interface TrackBatchOptions extends CallOptions {
+  /** Let the requests outlive the page (`fetch` with `keepalive`) */
+  keepalive?: boolean;
+  /** Maximum number of requests in flight at once (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Names of the SDK view events tracked automatically
+ */
+export type AutoTrackEventName = 'feedback_list' | 'feedback_detail' | 'submit_feedback';
+
+/**
+ * Automatic view-event tracking configuration
+ *
+ * `feedback_list` is tracked after `feedback.list`/`feedback.listPage`
+ * (first page only), `feedback_detail` after `feedback.get`, and
+ * `submit_feedback` when a UI calls `events.trackView`. Events are only
+ * sent while the client has a user ID.
+ */
+export interface AutoTrackConfig {
+  /** Fraction of events to send, from 0 to 1 (default 1) */
+  sampleRate?: number;
+  /** Set an event to `false` to stop tracking it */
+  events?: Partial<Record<AutoTrackEventName, boolean>>;
+  /** Change an event before it is sent; return null to drop it */
+  enrich?: (event: TrackEventRequest) => TrackEventRequest | null;
+}
+
+/**
+ * Anonymous user ID configuration
+ */
+export interface AnonymousIdConfig {
+  /** Where the ID is persisted (defaults to `localStorage`, or memory where it's unavailable) */
+  storage?: StorageAdapter;
+  /** Storage key for the ID */
+  storageKey?: string;
+  /**
+   * Alias the anonymous ID to the user passed to `identify` (defaults to false)
+   *
+   * Only enable this if your server supports `POST /users/alias`.
+   */
+  aliasOnIdentify?: boolean;
+}
+
+/**
+ * Log levels, from most to least verbose; `silent` logs nothing
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * A structured log record for one step of a request
+ *
+ * `request` is logged at debug level before the first attempt, `retry` at
+ * warn before each retry, `response` at info on success and `error` at error
+ * level when the request fails (info if the caller aborted it).
+ */
+export interface LogRecord {
+  level: Exclude<LogLevel, 'silent'>;
+  /** Step of the request */
+  event: 'request' | 'retry' | 'response' | 'error';
+  /** API operation, e.g. `feedback.list` */
+  operation: string;
+  /** HTTP method */
+  method: HttpMethod;
+  /** Absolute request URL, redacted */
+  url: string;
+  /** HTTP status code, once a response was received */
+  status?: number;
+  /** Time since the request started, in ms */
+  duration?: number;
+  /** Number of retries made so far */
+  retries: number;
+  /** Size of the serialized request body in bytes */
+  requestBytes?: number;
+  /** Size of the response body in bytes, from `Content-Length` */
+  responseBytes?: number;
+  /** Request headers, redacted (`request` records only) */
+  headers?: Record<string, string>;
+  /** Request body, redacted (`request` records only) */
+  body?: unknown;
+  /** The failure (`retry` and `error` records) */
+  error?: { name: string; code: string; message: string; requestId?: string };
+  /** Delay before the next attempt in ms (`retry` records only) */
+  delay?: number;
+}
+
+/**
+ * Receives log records
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Request logging configuration
+ */
+export interface LoggerConfig {
+  /** Minimum level to log (default `info`) */
+  level?: LogLevel;
+  /** Where records go (defaults to the console) */
+  sink?: LogSink;
+  /** Additional header, body field or query parameter names to redact, case-insensitive */
+  redact?: string[];
+}
+
+/**
+ * Span attribute or metric attribute value
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * A trace span for one request
+ *
+ * A subset of the OpenTelemetry `Span`, so OpenTelemetry spans can be used
+ * as is.
+ */
+export interface TraceSpan {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  /** Record the error that failed the request */
+  recordException?(error: Error): unknown;
+  /** Mark the span as failed (`code` 2, OpenTelemetry's `SpanStatusCode.ERROR`) */
+  setStatus?(status: { code: number; message?: string }): unknown;
+  /** IDs for the `traceparent` header; without it no header is sent */
+  spanContext?(): { traceId: string; spanId: string; traceFlags: number };
+  end(): unknown;
+}
+
+/**
+ * Creates request spans
+ *
+ * A subset of the OpenTelemetry `Tracer`, e.g. `trace.getTracer('feedbackkit')`.
+ */
+export interface Tracer {
+  /** `kind` is 2, OpenTelemetry's `SpanKind.CLIENT` */
+  startSpan(name: string, options?: { kind?: number; attributes?: Record<string, AttributeValue> }): TraceSpan;
+}
+
+/**
+ * Receives request metrics
+ *
+ * Per request, `feedbackkit.requests` is incremented, `feedbackkit.request.duration`
+ * records the duration in ms, and `feedbackkit.request.failures` is incremented
+ * when the request fails.
+ */
+export interface Metrics {
+  /** Add to a counter */
+  counter(name: string, value: number, attributes: Record<string, AttributeValue>): void;
+  /** Record a histogram value */
+  histogram(name: string, value: number, attributes: Record<string, AttributeValue>): void;
+}
+
 /**
  * FeedbackKit client configuration
  */
-export interface FeedbackKitConfig {
+export interface FeedbackKitConfig<
+  TDates extends boolean = false,
+  TBuffer extends EventBufferOption | NoEventBuffer = EventBufferOption
+> {
   /** Project API key (starts with sf_) */
   apiKey: string;
   /** Base URL of the FeedbackKit API */
@@ -255,6 +692,37 @@ export interface FeedbackKitConfig {
   userId?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retry policy, or `false` to disable retries */
+  retry?: RetryConfig | false;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: FetchFunction;
+  /** Custom transport; takes precedence over `fetch` */
+  transport?: Transport;
+  /** Queue writes that fail with a NetworkError and replay them later */
+  offline?: boolean | OfflineConfig;
+  /** Buffer tracked events and send them in batches; `events.track` then resolves with null right away */
+  eventBuffer?: TBuffer;
+  /** Cache `feedback.list` and `feedback.get` responses */
+  cache?: boolean | CacheConfig;
+  /**
+   * Check response shapes and map unknown statuses/categories to `Unknown`;
+   * with `dates: true`, responses carry Date objects instead of date strings
+   */
+  decode?: boolean | DecodeOptions<TDates>;
+  /** Track the `SDKEvents` view events automatically */
+  autoTrack?: boolean | AutoTrackConfig;
+  /** Minimum time between `identify` registrations of the same user, in ms (default 1 hour) */
+  registerInterval?: number;
+  /** Use a persisted anonymous ID until a user is identified */
+  anonymousId?: boolean | AnonymousIdConfig;
+  /** Log requests and responses, with secrets and emails redacted */
+  logger?: boolean | LoggerConfig;
+  /** Shortcut for `logger: { level: 'debug' }` */
+  debug?: boolean;
+  /** Create a span per request and send `traceparent` headers */
+  tracer?: Tracer;
+  /** Record request counts, failures and latency */
+  metrics?: Metrics;
 }
 
 /**
@@ -262,5 +730,63 @@ export interface FeedbackKitConfig {
  */
 export const DEFAULT_CONFIG = {
   baseUrl: 'https://feedbackkit.swiftly-workspace.com/api/v1',
-  timeout: 30000
+  timeout: 30000,
+  registerInterval: 3600000
+} as const;
+
+/**
+ * Default retry policy values
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  jitter: true,
+  retryStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryMethods: ['GET', 'PUT', 'DELETE']
+} as const;
+
+/**
+ * Default response cache values
+ */
+export const DEFAULT_CACHE_CONFIG = {
+  ttl: 30000,
+  staleWhileRevalidate: 60000,
+  maxEntries: 100
+} as const;
+
+/**
+ * Default event buffer values
+ */
+export const DEFAULT_EVENT_BUFFER_CONFIG = {
+  maxBatchSize: 20,
+  flushInterval: 5000,
+  maxRetries: 3,
+  flushOnExit: true
+} as const;
+
+/**
+ * Default offline queue values
+ */
+export const DEFAULT_OFFLINE_CONFIG = {
+  storageKey: 'feedbackkit:outbox',
+  replayOnReconnect: true,
+  replayInterval: 0
+} as const;
+
+/**
+ * Default anonymous ID values
+ */
+export const DEFAULT_ANONYMOUS_ID_CONFIG = {
+  storageKey: 'feedbackkit:anonymous-id',
+  aliasOnIdentify: false
+} as const;
+
+/**
+ * Default logger values
+ */
+export const DEFAULT_LOGGER_CONFIG = {
+  level: 'info',
+  /** Header, body and query parameter names that are always redacted */
+  redact: ['x-api-key', 'apiKey', 'authorization', 'cookie', 'email', 'userEmail', 'password', 'token']
 } as const;
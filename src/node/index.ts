@@ -0,0 +1,7 @@
+/**
+ * FeedbackKit Node.js utilities
+ *
+ * Import from `feedbackkit-js/node`; not part of the main bundle.
+ */
+
+export { FileStorage } from '../storage/file-storage';
@@ -0,0 +1,286 @@
+/**
+ * Offline Write Queue
+ *
+ * Durable outbox for writes that failed because the device was offline.
+ */
+
+import { FeedbackKitError } from '../models/errors';
+import {
+  OfflineConfig,
+  QueuedRequest,
+  QueueOutcome,
+  QueueState,
+  DEFAULT_OFFLINE_CONFIG
+} from '../models/types';
+import { MemoryStorage, StorageAdapter } from '../storage/adapters';
+import { generateId } from '../utils/id';
+
+/**
+ * Sends a queued request; provided by the client
+ */
+export type QueueSender = (item: QueuedRequest) => Promise<unknown>;
+
+/**
+ * A request to add to the queue
+ */
+export type QueueEntry = Pick<QueuedRequest, 'method' | 'path' | 'body' | 'idempotencyKey'>;
+
+/**
+ * Path of the votes endpoint, used to pair votes with unvotes
+ */
+const VOTES_PATH = /^\/feedbacks\/[^/]+\/votes$/;
+
+/**
+ * Offline queue for write requests
+ *
+ * Requests are persisted through a storage adapter and replayed in order.
+ * A replay stops at the first network error and resumes on the next
+ * reconnect, interval tick or manual `replay()`.
+ *
+ * @example
+ * ```ts
+ * const feedbackKit = new FeedbackKit({
+ *   apiKey: 'sf_your_api_key',
+ *   offline: {
+ *     storage: new LocalStorageAdapter(),
+ *     onOutcome: (outcome) => {
+ *       if (outcome.status === 'failed') showToast(outcome.error.message);
+ *     }
+ *   }
+ * });
+ *
+ * feedbackKit.outbox?.subscribe((state) => {
+ *   console.log(`${state.pending.length} requests waiting`);
+ * });
+ * ```
+ */
+export class OfflineQueue {
+  private storage: StorageAdapter;
+  private storageKey: string;
+  private items: QueuedRequest[] = [];
+  private loaded: Promise<void>;
+  private replaying: Promise<void> | null = null;
+  /** The item being sent by a replay; it can no longer be cancelled */
+  private sending: QueuedRequest | null = null;
+  private listeners = new Set<(state: QueueState) => void>();
+  private cleanup: Array<() => void> = [];
+
+  constructor(
+    private config: OfflineConfig,
+    private sender: QueueSender
+  ) {
+    this.storage = config.storage ?? new MemoryStorage();
+    this.storageKey = config.storageKey ?? DEFAULT_OFFLINE_CONFIG.storageKey;
+    this.loaded = this.load();
+
+    if (config.replayOnReconnect ?? DEFAULT_OFFLINE_CONFIG.replayOnReconnect) {
+      const target = globalThis as { addEventListener?: typeof addEventListener; removeEventListener?: typeof removeEventListener };
+      if (typeof target.addEventListener === 'function' && typeof target.removeEventListener === 'function') {
+        const onOnline = () => void this.replay();
+        target.addEventListener('online', onOnline);
+        this.cleanup.push(() => target.removeEventListener?.('online', onOnline));
+      }
+    }
+
+    const interval = config.replayInterval ?? DEFAULT_OFFLINE_CONFIG.replayInterval;
+    if (interval > 0) {
+      const timer = setInterval(() => void this.replay(), interval);
+      // Don't keep Node processes alive just for the queue
+      (timer as { unref?: () => void }).unref?.();
+      this.cleanup.push(() => clearInterval(timer));
+    }
+
+    // Flush anything left over from a previous session
+    void this.loaded.then(() => {
+      if (this.items.length > 0) {
+        void this.replay();
+      }
+    });
+  }
+
+  /**
+   * Add a failed request to the queue
+   *
+   * A vote and an unvote for the same feedback and user cancel each other
+   * out, and a repeated vote or unvote replaces the pending one. Requests
+   * without an idempotency key get one, so a replay the server already
+   * received isn't applied twice.
+   *
+   * @returns The queued item, or null if it cancelled out a pending one
+   */
+  async enqueue(entry: QueueEntry): Promise<QueuedRequest | null> {
+    await this.loaded;
+
+    const item: QueuedRequest = {
+      id: generateId(),
+      method: entry.method,
+      path: entry.path,
+      body: entry.body,
+      idempotencyKey: entry.idempotencyKey ?? generateId(),
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+
+    const counterpart = this.findVoteCounterpart(item);
+    if (counterpart) {
+      this.items = this.items.filter((pending) => pending !== counterpart);
+      await this.persist();
+      this.report({ status: 'cancelled', item: counterpart });
+      if (counterpart.method !== item.method) {
+        this.report({ status: 'cancelled', item });
+        return null;
+      }
+    }
+
+    this.items.push(item);
+    await this.persist();
+    return item;
+  }
+
+  /**
+   * Replay queued requests in order
+   *
+   * Resolves when the queue is empty or a network error interrupts the
+   * replay. Concurrent calls share the same replay.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Get a snapshot of the queue
+   */
+  getState(): QueueState {
+    return {
+      pending: [...this.items],
+      replaying: this.replaying !== null
+    };
+  }
+
+  /**
+   * Listen for queue changes
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (state: QueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop all queued requests without sending them
+   */
+  async clear(): Promise<void> {
+    await this.loaded;
+    const dropped = this.items;
+    this.items = [];
+    await this.persist();
+    dropped.forEach((item) => this.report({ status: 'cancelled', item }));
+  }
+
+  /**
+   * Stop listening for reconnects and interval ticks
+   */
+  destroy(): void {
+    this.cleanup.forEach((fn) => fn());
+    this.cleanup = [];
+    this.listeners.clear();
+  }
+
+  private async drain(): Promise<void> {
+    await this.loaded;
+
+    while (this.items.length > 0) {
+      const item = this.items[0];
+      item.attempts++;
+      this.sending = item;
+
+      try {
+        const result = await this.sender(item);
+        await this.remove(item);
+        this.report({ status: 'sent', item, result });
+      } catch (error) {
+        if (error instanceof FeedbackKitError && error.retryable) {
+          // Still offline, rate limited or the server is down; keep the item
+          // and try again later
+          await this.persist();
+          return;
+        }
+
+        await this.remove(item);
+        this.report({
+          status: 'failed',
+          item,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      } finally {
+        this.sending = null;
+      }
+    }
+  }
+
+  private findVoteCounterpart(item: QueuedRequest): QueuedRequest | undefined {
+    if (!VOTES_PATH.test(item.path)) {
+      return undefined;
+    }
+
+    const userId = (item.body as { userId?: string } | undefined)?.userId;
+
+    // Only the latest pending vote action for this feedback/user matters;
+    // one already being sent may have reached the server
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const pending = this.items[i];
+      if (pending === this.sending) {
+        break;
+      }
+      if (
+        pending.path === item.path &&
+        (pending.body as { userId?: string } | undefined)?.userId === userId
+      ) {
+        return pending;
+      }
+    }
+    return undefined;
+  }
+
+  private async remove(item: QueuedRequest): Promise<void> {
+    this.items = this.items.filter((pending) => pending !== item);
+    await this.persist();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      this.items = raw ? (JSON.parse(raw) as QueuedRequest[]) : [];
+    } catch {
+      // Corrupt or unreadable storage; start with an empty queue
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    if (this.items.length > 0) {
+      await this.storage.setItem(this.storageKey, JSON.stringify(this.items));
+    } else {
+      await this.storage.removeItem(this.storageKey);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  private report(outcome: QueueOutcome): void {
+    this.config.onOutcome?.(outcome);
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * FeedbackKit React bindings
+ *
+ * Import from `feedbackkit-js/react`; requires React 18 or later.
+ */
+
+import {
+  ReactNode,
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import type { FeedbackKit } from '../client';
+import { FeedbackKitError, toFeedbackKitError } from '../models/errors';
+import { QueryKind, queryCacheFor } from '../store/query-cache';
+import {
+  Comment,
+  CreateFeedbackRequest,
+  EventBufferOption,
+  Feedback,
+  ListFeedbackOptions,
+  TrackedEvent,
+  VoteResponse
+} from '../models/types';
+
+const FeedbackKitContext = createContext<FeedbackKit<false, EventBufferOption> | null>(null);
+
+/**
+ * Provider props
+ */
+export interface FeedbackKitProviderProps {
+  /** Client used by all hooks below the provider */
+  client: FeedbackKit<false, EventBufferOption>;
+  children?: ReactNode;
+}
+
+/**
+ * Make a client available to the FeedbackKit hooks
+ *
+ * @example
+ * ```tsx
+ * const feedbackKit = new FeedbackKit({ apiKey: 'sf_your_api_key', userId: 'user_12345' });
+ *
+ * root.render(
+ *   <FeedbackKitProvider client={feedbackKit}>
+ *     <App />
+ *   </FeedbackKitProvider>
+ * );
+ * ```
+ */
+export function FeedbackKitProvider({ client, children }: FeedbackKitProviderProps) {
+  return createElement(FeedbackKitContext.Provider, { value: client }, children);
+}
+
+/**
+ * The client from the nearest `FeedbackKitProvider`
+ */
+export function useFeedbackKit(): FeedbackKit<false, EventBufferOption> {
+  const client = useContext(FeedbackKitContext);
+  if (!client) {
+    throw new Error('FeedbackKit: hooks must be used inside a FeedbackKitProvider');
+  }
+  return client;
+}
+
+/**
+ * The client's current user ID; re-renders after `setUserId`
+ */
+export function useUserId(): string | undefined {
+  const client = useFeedbackKit();
+  return useSyncExternalStore(
+    useCallback((listener: () => void) => client.onUserIdChange(listener), [client]),
+    () => client.getUserId(),
+    () => client.getUserId()
+  );
+}
+
+/**
+ * Options for query hooks
+ */
+export interface QueryOptions {
+  /**
+   * Suspend while loading and throw errors to the nearest error boundary
+   * instead of returning `loading`/`error`
+   */
+  suspense?: boolean;
+}
+
+/**
+ * Result of a query hook
+ */
+export interface QueryResult<T> {
+  /** Loaded data; the previous data is kept while reloading */
+  data: T | undefined;
+  /** Error of the last load */
+  error: FeedbackKitError | null;
+  /** Whether a load is in flight */
+  loading: boolean;
+  /** Reload the data */
+  refetch: () => void;
+}
+
+/**
+ * List feedback
+ *
+ * Reloads when the options or the current user change.
+ *
+ * @example
+ * ```tsx
+ * const { data, loading, error } = useFeedbackList({ status: FeedbackStatus.Approved });
+ * ```
+ */
+export function useFeedbackList(
+  options: ListFeedbackOptions = {},
+  queryOptions: QueryOptions = {}
+): QueryResult<Feedback[]> {
+  const client = useFeedbackKit();
+  return useQuery(`list:${JSON.stringify(options)}`, 'list', () => client.feedback.list(options), queryOptions);
+}
+
+/**
+ * Get a single feedback item
+ */
+export function useFeedback(feedbackId: string, queryOptions: QueryOptions = {}): QueryResult<Feedback> {
+  const client = useFeedbackKit();
+  return useQuery(`feedback:${feedbackId}`, 'feedback', () => client.feedback.get(feedbackId), queryOptions);
+}
+
+/**
+ * List the comments of a feedback item
+ */
+export function useComments(feedbackId: string, queryOptions: QueryOptions = {}): QueryResult<Comment[]> {
+  const client = useFeedbackKit();
+  return useQuery(`comments:${feedbackId}`, 'comments', () => client.comments.list(feedbackId), queryOptions);
+}
+
+/**
+ * Result of `useVote`
+ */
+export interface VoteResult {
+  /** Vote as the current user */
+  vote: () => Promise<VoteResponse>;
+  /** Remove the current user's vote */
+  unvote: () => Promise<VoteResponse>;
+  /** Whether a vote or unvote is in flight */
+  pending: boolean;
+  /** Error of the last vote or unvote */
+  error: FeedbackKitError | null;
+}
+
+/**
+ * Vote and unvote as the current user
+ *
+ * Successful votes update `voteCount` and `hasVoted` in every hook showing
+ * the feedback item.
+ *
+ * @example
+ * ```tsx
+ * const { vote, unvote, pending } = useVote(feedback.id);
+ *
+ * <button disabled={pending} onClick={feedback.hasVoted ? unvote : vote}>▲ {feedback.voteCount}</button>
+ * ```
+ */
+export function useVote(feedbackId: string): VoteResult {
+  const client = useFeedbackKit();
+  const { run, pending, error } = useMutation(async (action: 'vote' | 'unvote') => {
+    const result = action === 'vote'
+      ? await client.votes.vote(feedbackId)
+      : await client.votes.unvote(feedbackId);
+    queryCacheFor(client).updateFeedback(feedbackId, { voteCount: result.voteCount, hasVoted: result.hasVoted });
+    return result;
+  });
+
+  return {
+    vote: useCallback(() => run('vote'), [run]),
+    unvote: useCallback(() => run('unvote'), [run]),
+    pending,
+    error
+  };
+}
+
+/**
+ * Feedback to submit; `userId` and `userEmail` default to the identified user
+ */
+export type SubmitFeedbackRequest = CreateFeedbackRequest;
+
+/**
+ * Result of `useSubmitFeedback`
+ */
+export interface SubmitFeedbackResult {
+  /** Create a feedback item; feedback lists reload afterwards */
+  submit: (request: SubmitFeedbackRequest) => Promise<Feedback>;
+  /** Whether a submission is in flight */
+  pending: boolean;
+  /** Error of the last submission, e.g. a `ValidationError` with `fields` */
+  error: FeedbackKitError | null;
+}
+
+/**
+ * Submit new feedback
+ */
+export function useSubmitFeedback(): SubmitFeedbackResult {
+  const client = useFeedbackKit();
+  const { run, pending, error } = useMutation(async (request: SubmitFeedbackRequest) => {
+    const feedback = await client.feedback.create(request);
+    queryCacheFor(client).invalidate('list');
+    return feedback;
+  });
+
+  return { submit: run, pending, error };
+}
+
+/**
+ * Track events as the current user
+ *
+ * Resolves with null when the client buffers events (`eventBuffer`).
+ *
+ * @example
+ * ```tsx
+ * const track = useTrackEvent();
+ * useEffect(() => void track(SDKEvents.FeedbackList), [track]);
+ * ```
+ */
+export function useTrackEvent(): (
+  eventName: string,
+  properties?: Record<string, unknown>
+) => Promise<TrackedEvent | null> {
+  const client = useFeedbackKit();
+  return useCallback(
+    (eventName: string, properties?: Record<string, unknown>) => client.events.track({ eventName, properties }),
+    [client]
+  );
+}
+
+function useQuery<T>(key: string, kind: QueryKind, load: () => Promise<T>, options: QueryOptions): QueryResult<T> {
+  const client = useFeedbackKit();
+  const userId = useUserId();
+  const cache = queryCacheFor(client);
+  const latest = useRef(load);
+  latest.current = load;
+
+  // Responses depend on the user (`hasVoted`), so each user gets its own entry
+  const cacheKey = `${userId ?? ''}|${key}`;
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const unsubscribe = cache.subscribe(listener);
+      const stopObserving = cache.observe(cacheKey);
+      // Load once mounted rather than while rendering
+      cache.ensure(cacheKey, kind, () => latest.current());
+      return () => {
+        unsubscribe();
+        stopObserving();
+      };
+    },
+    [cache, cacheKey, kind]
+  );
+  const getEntry = () => cache.get<T>(cacheKey);
+  let entry = useSyncExternalStore(subscribe, getEntry, getEntry);
+
+  const refetch = useCallback(() => {
+    cache.fetch(cacheKey, kind, () => latest.current());
+  }, [cache, cacheKey, kind]);
+
+  if (options.suspense) {
+    // A suspended component never mounts, so the load has to start here
+    entry = entry ?? cache.ensure(cacheKey, kind, load);
+    if (entry.status === 'error') {
+      // Otherwise a reset error boundary would get the same error until GC
+      cache.dropError(cacheKey);
+      throw entry.error;
+    }
+    if (entry.data === undefined) {
+      throw entry.promise;
+    }
+  }
+
+  return {
+    data: entry?.data,
+    error: entry?.error ?? null,
+    loading: !entry || entry.status === 'pending',
+    refetch
+  };
+}
+
+function useMutation<A, R>(action: (arg: A) => Promise<R>) {
+  const [state, setState] = useState<{ pending: number; error: FeedbackKitError | null }>({
+    pending: 0,
+    error: null
+  });
+  const latest = useRef(action);
+  latest.current = action;
+
+  const run = useCallback(
+    async (arg: A): Promise<R> => {
+      setState((current) => ({ pending: current.pending + 1, error: null }));
+      try {
+        const result = await latest.current(arg);
+        setState((current) => ({ ...current, pending: current.pending - 1 }));
+        return result;
+      } catch (error) {
+        setState((current) => ({ pending: current.pending - 1, error: toFeedbackKitError(error) }));
+        throw error;
+      }
+    },
+    [latest]
+  );
+
+  return { run, pending: state.pending > 0, error: state.error };
+}
@@ -0,0 +1,163 @@
+/**
+ * Roadmap and Changelog Renderers
+ *
+ * Turn roadmap and changelog view models into Markdown, static HTML and
+ * Atom/RSS feeds. All user content is escaped for the target format.
+ */
+
+import { Roadmap, Changelog, RoadmapItem } from './roadmap';
+
+/**
+ * Feed options
+ */
+export interface FeedOptions {
+  /** Feed title */
+  title: string;
+  /** URL of the page the feed belongs to */
+  link: string;
+  /** Feed description (RSS) or subtitle (Atom) */
+  description?: string;
+  /** Feed author (Atom, which requires one; defaults to the title) */
+  author?: string;
+  /** Feed format (default `atom`) */
+  format?: 'atom' | 'rss';
+  /** Link for an entry (defaults to the feed link) */
+  itemLink?: (item: RoadmapItem) => string;
+}
+
+/**
+ * Render a roadmap as Markdown, one section per column
+ */
+export function renderRoadmapMarkdown(roadmap: Roadmap): string {
+  return roadmap.columns
+    .map((column) => {
+      const lines = column.items.length === 0
+        ? ['_Nothing here yet._']
+        : column.items.map((item) => `- ${markdownItem(item)}`);
+      return [`## ${escapeMarkdown(column.title)}`, '', ...lines].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Render a changelog as Markdown
+ */
+export function renderChangelogMarkdown(changelog: Changelog, title = 'Changelog'): string {
+  const lines = changelog.items.length === 0
+    ? ['_No changes shipped yet._']
+    : changelog.items.map((item) => `- ${item.feedback.updatedAt.slice(0, 10)}: ${markdownItem(item)}`);
+  return [`# ${escapeMarkdown(title)}`, '', ...lines].join('\n') + '\n';
+}
+
+/**
+ * Render a roadmap as a static HTML fragment
+ *
+ * Uses `feedbackkit-roadmap*` class names for styling.
+ */
+export function renderRoadmapHtml(roadmap: Roadmap): string {
+  const columns = roadmap.columns.map((column) => {
+    const items = column.items
+      .map((item) => {
+        const merged = item.merged.length > 0
+          ? `<span class="feedbackkit-roadmap-merged">+${item.merged.length} merged</span>`
+          : '';
+        return [
+          '      <li class="feedbackkit-roadmap-item">',
+          `        <span class="feedbackkit-roadmap-votes">${item.feedback.voteCount}</span>`,
+          `        <span class="feedbackkit-roadmap-title">${escapeHtml(item.feedback.title)}</span>${merged}`,
+          '      </li>'
+        ].join('\n');
+      })
+      .join('\n');
+
+    return [
+      `  <section class="feedbackkit-roadmap-column" data-column="${column.id}">`,
+      `    <h2>${escapeHtml(column.title)}</h2>`,
+      '    <ul>',
+      ...(items ? [items] : []),
+      '    </ul>',
+      '  </section>'
+    ].join('\n');
+  });
+
+  return ['<div class="feedbackkit-roadmap">', ...columns, '</div>'].join('\n') + '\n';
+}
+
+/**
+ * Render a changelog as an Atom or RSS 2.0 feed
+ */
+export function renderChangelogFeed(changelog: Changelog, options: FeedOptions): string {
+  const link = (item: RoadmapItem) => options.itemLink?.(item) ?? options.link;
+  const updated = changelog.items[0]?.feedback.updatedAt ?? changelog.generatedAt;
+
+  if (options.format === 'rss') {
+    const items = changelog.items.map((item) => [
+      '    <item>',
+      `      <title>${escapeXml(item.feedback.title)}</title>`,
+      `      <link>${escapeXml(link(item))}</link>`,
+      `      <guid isPermaLink="false">feedbackkit:${escapeXml(item.feedback.id)}</guid>`,
+      `      <pubDate>${new Date(item.feedback.updatedAt).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(item.feedback.description)}</description>`,
+      '    </item>'
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<rss version="2.0">',
+      '  <channel>',
+      `    <title>${escapeXml(options.title)}</title>`,
+      `    <link>${escapeXml(options.link)}</link>`,
+      `    <description>${escapeXml(options.description ?? options.title)}</description>`,
+      `    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>`,
+      ...items,
+      '  </channel>',
+      '</rss>'
+    ].join('\n') + '\n';
+  }
+
+  const entries = changelog.items.map((item) => [
+    '  <entry>',
+    `    <title>${escapeXml(item.feedback.title)}</title>`,
+    `    <id>urn:feedbackkit:feedback:${escapeXml(item.feedback.id)}</id>`,
+    `    <link href="${escapeXml(link(item))}"/>`,
+    `    <updated>${new Date(item.feedback.updatedAt).toISOString()}</updated>`,
+    `    <summary>${escapeXml(item.feedback.description)}</summary>`,
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(options.title)}</title>`,
+    ...(options.description ? [`  <subtitle>${escapeXml(options.description)}</subtitle>`] : []),
+    `  <id>${escapeXml(options.link)}</id>`,
+    `  <link href="${escapeXml(options.link)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(options.author ?? options.title)}</name></author>`,
+    ...entries,
+    '</feed>'
+  ].join('\n') + '\n';
+}
+
+function markdownItem(item: RoadmapItem): string {
+  const votes = `${item.feedback.voteCount} vote${item.feedback.voteCount === 1 ? '' : 's'}`;
+  const merged = item.merged.length > 0 ? `, ${item.merged.length} merged` : '';
+  return `**${escapeMarkdown(item.feedback.title)}** (${votes}${merged})`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/[\\`*_{}[\]<>#|!]/g, '\\$&');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeXml(text: string): string {
+  return escapeHtml(text).replace(/&#39;/g, '&apos;');
+}
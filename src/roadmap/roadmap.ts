@@ -0,0 +1,224 @@
+/**
+ * Roadmap and Changelog
+ *
+ * Groups feedback into public roadmap columns by status and collects newly
+ * shipped items for release notes.
+ */
+
+import { FeedbackApi } from '../api/feedback';
+import { CallOptions, Feedback, FeedbackStatus } from '../models/types';
+
+/**
+ * Roadmap column identifiers
+ */
+export type RoadmapColumnId = 'planned' | 'in_progress' | 'beta' | 'shipped';
+
+/**
+ * How items are ordered within a column
+ *
+ * - `votes`: most votes first (default)
+ * - `mrr`: highest combined voter MRR first
+ * - `updated`: most recently updated first
+ */
+export type RoadmapRanking = 'votes' | 'mrr' | 'updated' | ((a: Feedback, b: Feedback) => number);
+
+/**
+ * A roadmap entry
+ */
+export interface RoadmapItem {
+  /** The feedback item */
+  feedback: Feedback;
+  /** Items merged into this one (via `mergedIntoId`) */
+  merged: Feedback[];
+}
+
+/**
+ * A roadmap column
+ */
+export interface RoadmapColumn {
+  /** Column identifier */
+  id: RoadmapColumnId;
+  /** Display title */
+  title: string;
+  /** Feedback status shown in this column */
+  status: FeedbackStatus;
+  /** Ranked entries */
+  items: RoadmapItem[];
+}
+
+/**
+ * Roadmap view model
+ */
+export interface Roadmap {
+  /** Columns in display order */
+  columns: RoadmapColumn[];
+  /** When the roadmap was built (ISO 8601) */
+  generatedAt: string;
+}
+
+/**
+ * Changelog view model
+ */
+export interface Changelog {
+  /** Only items completed on or after this time are included (ISO 8601) */
+  since: string;
+  /** Completed entries, most recently updated first */
+  items: RoadmapItem[];
+  /** When the changelog was built (ISO 8601) */
+  generatedAt: string;
+}
+
+/**
+ * Roadmap options
+ */
+export interface RoadmapOptions {
+  /** Columns to include, in order (default: all four) */
+  columns?: RoadmapColumnId[];
+  /** Override column titles */
+  titles?: Partial<Record<RoadmapColumnId, string>>;
+  /** Ordering within each column (default `votes`) */
+  rank?: RoadmapRanking;
+  /** Maximum entries per column */
+  limit?: number;
+}
+
+/**
+ * Column definitions in default order
+ */
+export const ROADMAP_COLUMNS: ReadonlyArray<{ id: RoadmapColumnId; status: FeedbackStatus; title: string }> = [
+  { id: 'planned', status: FeedbackStatus.Approved, title: 'Planned' },
+  { id: 'in_progress', status: FeedbackStatus.InProgress, title: 'In Progress' },
+  { id: 'beta', status: FeedbackStatus.TestFlight, title: 'Beta' },
+  { id: 'shipped', status: FeedbackStatus.Completed, title: 'Shipped' }
+];
+
+/**
+ * Build a roadmap from feedback items
+ *
+ * Items merged into another item are folded into their parent and never
+ * shown on their own.
+ */
+export function buildRoadmap(feedback: readonly Feedback[], options: RoadmapOptions = {}): Roadmap {
+  const ids = options.columns ?? ROADMAP_COLUMNS.map((column) => column.id);
+  const entries = foldMerged(feedback);
+  const compare = comparator(options.rank ?? 'votes');
+
+  return {
+    columns: ids.map((id) => {
+      const column = ROADMAP_COLUMNS.find((definition) => definition.id === id) as (typeof ROADMAP_COLUMNS)[number];
+      const items = entries
+        .filter((entry) => entry.feedback.status === column.status)
+        .sort((a, b) => compare(a.feedback, b.feedback));
+      return {
+        id,
+        title: options.titles?.[id] ?? column.title,
+        status: column.status,
+        items: options.limit === undefined ? items : items.slice(0, options.limit)
+      };
+    }),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Build a changelog of items completed since a given time
+ *
+ * Completion time is taken from `updatedAt`.
+ */
+export function buildChangelog(feedback: readonly Feedback[], since: Date | string): Changelog {
+  const sinceTime = new Date(since).getTime();
+
+  return {
+    since: new Date(sinceTime).toISOString(),
+    items: foldMerged(feedback)
+      .filter((entry) => entry.feedback.status === FeedbackStatus.Completed)
+      .filter((entry) => Date.parse(entry.feedback.updatedAt) >= sinceTime)
+      .sort(byUpdated),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Loads feedback and builds roadmaps and changelogs
+ *
+ * @example
+ * ```ts
+ * const generator = new RoadmapGenerator(feedbackKit.feedback);
+ *
+ * const roadmap = await generator.roadmap({ rank: 'mrr', limit: 20 });
+ * document.querySelector('#roadmap').innerHTML = renderRoadmapHtml(roadmap);
+ *
+ * const changelog = await generator.changelog('2024-01-01');
+ * await writeFile('feed.xml', renderChangelogFeed(changelog, {
+ *   title: 'Acme release notes',
+ *   link: 'https://acme.example/changelog'
+ * }));
+ * ```
+ */
+export class RoadmapGenerator {
+  constructor(private feedbackApi: FeedbackApi) {}
+
+  /**
+   * Fetch roadmap feedback and build the roadmap
+   */
+  async roadmap(options: RoadmapOptions = {}, callOptions?: CallOptions): Promise<Roadmap> {
+    return buildRoadmap(await this.load(callOptions), options);
+  }
+
+  /**
+   * Fetch completed feedback and build a changelog
+   *
+   * @param since - Include items completed on or after this time
+   */
+  async changelog(since: Date | string, callOptions?: CallOptions): Promise<Changelog> {
+    return buildChangelog(await this.load(callOptions), since);
+  }
+
+  /**
+   * Load every item, including merged ones, whatever their status, so they
+   * can be folded into their parents
+   */
+  private async load(callOptions?: CallOptions): Promise<Feedback[]> {
+    const items: Feedback[] = [];
+    for await (const item of this.feedbackApi.iterate({ includeMerged: true }, callOptions)) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Attach merged items to their parents and drop them from the top level
+ */
+function foldMerged(feedback: readonly Feedback[]): RoadmapItem[] {
+  const entries = new Map<string, RoadmapItem>();
+  for (const item of feedback) {
+    if (!item.mergedIntoId) {
+      entries.set(item.id, { feedback: item, merged: [] });
+    }
+  }
+  for (const item of feedback) {
+    if (item.mergedIntoId) {
+      entries.get(item.mergedIntoId)?.merged.push(item);
+    }
+  }
+  return [...entries.values()];
+}
+
+function comparator(rank: RoadmapRanking): (a: Feedback, b: Feedback) => number {
+  if (typeof rank === 'function') {
+    return rank;
+  }
+
+  const primary = {
+    votes: (a: Feedback, b: Feedback) => b.voteCount - a.voteCount,
+    mrr: (a: Feedback, b: Feedback) => (b.totalMrr ?? 0) - (a.totalMrr ?? 0),
+    updated: () => 0
+  }[rank];
+
+  return (a, b) => primary(a, b) || b.updatedAt.localeCompare(a.updatedAt);
+}
+
+function byUpdated(a: RoadmapItem, b: RoadmapItem): number {
+  return Date.parse(b.feedback.updatedAt) - Date.parse(a.feedback.updatedAt);
+}
@@ -0,0 +1,98 @@
+/**
+ * Anonymous ID
+ *
+ * A generated user ID persisted across visits, used until the visitor is
+ * identified.
+ */
+
+import { StorageAdapter } from '../storage/adapters';
+import { generateId } from '../utils/id';
+
+/**
+ * Persisted anonymous ID
+ *
+ * With a synchronous storage (`localStorage`, cookies, memory) the ID is
+ * available as soon as the store is created; with an asynchronous one it
+ * is available once `ready()` resolves.
+ */
+export class AnonymousIdStore {
+  private id: string | undefined;
+  private loading: Promise<string>;
+
+  constructor(
+    private storage: StorageAdapter,
+    private storageKey: string,
+    private onChange: (id: string) => void
+  ) {
+    this.loading = this.load();
+  }
+
+  /**
+   * The current ID, if loaded
+   */
+  get(): string | undefined {
+    return this.id;
+  }
+
+  /**
+   * Resolve with the ID once it is loaded
+   */
+  ready(): Promise<string> {
+    return this.loading;
+  }
+
+  /**
+   * Replace the ID with a new one, e.g. on logout
+   */
+  rotate(): string {
+    const id = this.adopt(null);
+    this.loading = Promise.resolve(id);
+    return id;
+  }
+
+  /**
+   * Whether an ID has already been aliased to a user
+   */
+  async isAliased(id: string): Promise<boolean> {
+    return (await this.storage.getItem(this.aliasKey())) === id;
+  }
+
+  /**
+   * Remember that an ID has been aliased, so it isn't aliased again on
+   * later visits
+   */
+  async markAliased(id: string): Promise<void> {
+    await this.storage.setItem(this.aliasKey(), id);
+  }
+
+  private load(): Promise<string> {
+    let stored: string | null | Promise<string | null>;
+    try {
+      stored = this.storage.getItem(this.storageKey);
+    } catch {
+      stored = null;
+    }
+
+    if (stored instanceof Promise) {
+      // An ID from rotate() while loading wins over the stored one
+      return stored.catch(() => null).then((value) => this.id ?? this.adopt(value));
+    }
+    return Promise.resolve(this.adopt(stored));
+  }
+
+  private adopt(stored: string | null): string {
+    const id = stored || `anon_${generateId()}`;
+    if (!stored) {
+      Promise.resolve()
+        .then(() => this.storage.setItem(this.storageKey, id))
+        .catch(() => undefined);
+    }
+    this.id = id;
+    this.onChange(id);
+    return id;
+  }
+
+  private aliasKey(): string {
+    return `${this.storageKey}:aliased`;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * User Session
+ *
+ * The identified user shared by all API modules: requests that omit
+ * `userId` or an email fall back to it, or to the anonymous ID when no user
+ * is identified.
+ */
+
+/**
+ * Listener called with the new user ID
+ */
+export type UserIdListener = (userId: string | undefined) => void;
+
+/**
+ * Traits remembered for the identified user
+ */
+export interface SessionTraits {
+  /** Email used for vote notifications and feedback status updates */
+  email?: string;
+  /** Monthly Recurring Revenue sent on registration */
+  mrr?: number;
+}
+
+/**
+ * Current user of a client
+ */
+export class Session {
+  private userId: string | undefined;
+  private anonymousId: string | undefined;
+  private traits: SessionTraits = {};
+  private listeners = new Set<UserIdListener>();
+  /** When the user was last registered, and with which MRR */
+  private registered: { userId: string; mrr: number | undefined; at: number } | null = null;
+
+  constructor(userId?: string) {
+    this.userId = userId || undefined;
+  }
+
+  /**
+   * The identified user's ID, or the anonymous ID
+   */
+  getUserId(): string | undefined {
+    return this.userId ?? this.anonymousId;
+  }
+
+  getAnonymousId(): string | undefined {
+    return this.anonymousId;
+  }
+
+  /**
+   * Whether a user is identified (as opposed to anonymous)
+   */
+  isIdentified(): boolean {
+    return Boolean(this.userId);
+  }
+
+  getEmail(): string | undefined {
+    return this.traits.email;
+  }
+
+  getMrr(): number | undefined {
+    return this.traits.mrr;
+  }
+
+  /**
+   * Switch to another user
+   *
+   * Traits are kept for the same user and replaced for a different one.
+   */
+  setUser(userId: string | undefined, traits?: SessionTraits): void {
+    const next = userId || undefined;
+    const changed = next !== this.userId;
+
+    this.update(() => {
+      this.userId = next;
+      if (traits) {
+        this.traits = changed ? { ...traits } : { ...this.traits, ...traits };
+      } else if (changed) {
+        this.traits = {};
+      }
+    });
+  }
+
+  /**
+   * Set the ID used while no user is identified
+   */
+  setAnonymousId(anonymousId: string | undefined): void {
+    this.update(() => {
+      this.anonymousId = anonymousId;
+    });
+  }
+
+  /**
+   * Forget the user, e.g. on logout
+   */
+  clear(): void {
+    this.registered = null;
+    this.setUser(undefined);
+  }
+
+  /**
+   * Whether the current user is due for registration
+   *
+   * @param interval - Minimum time between registrations of the same user, in ms
+   */
+  needsRegistration(interval: number, now = Date.now()): boolean {
+    const registered = this.registered;
+    return !registered
+      || registered.userId !== this.getUserId()
+      || registered.mrr !== this.traits.mrr
+      || now - registered.at >= interval;
+  }
+
+  /**
+   * Record a successful registration of the current user
+   */
+  markRegistered(userId: string, mrr: number | undefined, now = Date.now()): void {
+    this.registered = { userId, mrr, at: now };
+  }
+
+  /**
+   * Listen for user ID changes; returns a function that removes the listener
+   */
+  onUserIdChange(listener: UserIdListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Apply a change and notify listeners if the effective user ID changed
+   */
+  private update(change: () => void): void {
+    const previous = this.getUserId();
+    change();
+    const next = this.getUserId();
+    if (next !== previous) {
+      this.listeners.forEach((listener) => listener(next));
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Storage Adapters
+ *
+ * Key-value persistence used by SDK features that must survive reloads.
+ * The interface is a subset of the Web Storage API, so `window.localStorage`
+ * can be passed directly; methods may also return promises.
+ */
+
+/**
+ * A key-value store for SDK state
+ */
+export interface StorageAdapter {
+  /** Read a value, or null if it doesn't exist */
+  getItem(key: string): string | null | Promise<string | null>;
+  /** Write a value */
+  setItem(key: string, value: string): void | Promise<void>;
+  /** Delete a value */
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * In-memory storage (not persisted)
+ */
+export class MemoryStorage implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Browser `localStorage` storage
+ *
+ * Falls back to memory when `localStorage` is unavailable (server-side
+ * rendering, privacy modes that throw on access).
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private fallback = new MemoryStorage();
+
+  constructor(private prefix = '') {}
+
+  getItem(key: string): string | null {
+    const storage = this.storage();
+    return storage ? storage.getItem(this.prefix + key) : this.fallback.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    const storage = this.storage();
+    if (storage) {
+      storage.setItem(this.prefix + key, value);
+    } else {
+      this.fallback.setItem(key, value);
+    }
+  }
+
+  removeItem(key: string): void {
+    const storage = this.storage();
+    if (storage) {
+      storage.removeItem(this.prefix + key);
+    } else {
+      this.fallback.removeItem(key);
+    }
+  }
+
+  private storage(): Storage | null {
+    try {
+      return (globalThis as { localStorage?: Storage }).localStorage ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Cookie storage options
+ */
+export interface CookieStorageOptions {
+  /** Prefix for cookie names */
+  prefix?: string;
+  /** Cookie lifetime in seconds (defaults to one year) */
+  maxAge?: number;
+  /** Cookie domain, e.g. `.example.com` to share across subdomains */
+  domain?: string;
+  /** Cookie path (defaults to `/`) */
+  path?: string;
+  /** SameSite attribute (defaults to `Lax`) */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Only send over HTTPS (defaults to true when `sameSite` is `None`) */
+  secure?: boolean;
+}
+
+/**
+ * Browser cookie storage
+ *
+ * Suited for small values shared across subdomains. Falls back to memory
+ * when `document.cookie` is unavailable.
+ */
+export class CookieStorage implements StorageAdapter {
+  private fallback = new MemoryStorage();
+
+  constructor(private options: CookieStorageOptions = {}) {}
+
+  getItem(key: string): string | null {
+    const document = this.document();
+    if (!document) {
+      return this.fallback.getItem(key);
+    }
+
+    const name = encodeURIComponent((this.options.prefix ?? '') + key);
+    for (const cookie of document.cookie.split(';')) {
+      const [cookieName, ...value] = cookie.trim().split('=');
+      if (cookieName === name) {
+        return decodeURIComponent(value.join('='));
+      }
+    }
+    return null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.write(key, encodeURIComponent(value), this.options.maxAge ?? 31536000);
+  }
+
+  removeItem(key: string): void {
+    this.write(key, '', 0);
+  }
+
+  private write(key: string, value: string, maxAge: number): void {
+    const document = this.document();
+    if (!document) {
+      if (maxAge > 0) {
+        this.fallback.setItem(key, decodeURIComponent(value));
+      } else {
+        this.fallback.removeItem(key);
+      }
+      return;
+    }
+
+    const sameSite = this.options.sameSite ?? 'Lax';
+    const attributes = [
+      `${encodeURIComponent((this.options.prefix ?? '') + key)}=${value}`,
+      `Max-Age=${maxAge}`,
+      `Path=${this.options.path ?? '/'}`,
+      `SameSite=${sameSite}`,
+      ...(this.options.domain ? [`Domain=${this.options.domain}`] : []),
+      ...(this.options.secure ?? sameSite === 'None' ? ['Secure'] : [])
+    ];
+    document.cookie = attributes.join('; ');
+  }
+
+  private document(): { cookie: string } | null {
+    return (globalThis as { document?: { cookie: string } }).document ?? null;
+  }
+}
+
+/**
+ * Browser IndexedDB storage
+ *
+ * Suited for larger payloads such as queued requests.
+ */
+export class IndexedDBStorage implements StorageAdapter {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName = 'feedbackkit',
+    private storeName = 'keyval'
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('FeedbackKit: IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
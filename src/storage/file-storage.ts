@@ -0,0 +1,74 @@
+/**
+ * File Storage
+ *
+ * Node.js-only storage adapter, exported from `feedbackkit-js/node` so
+ * browser bundles never reference `fs` or `process`.
+ */
+
+import { readFile, rename, writeFile } from 'fs/promises';
+import { StorageAdapter } from './adapters';
+
+/**
+ * File-based storage for Node.js
+ *
+ * All keys are stored in a single JSON file, written atomically.
+ *
+ * @example
+ * ```ts
+ * import { FileStorage } from 'feedbackkit-js/node';
+ *
+ * const feedbackKit = new FeedbackKit({
+ *   apiKey: 'sf_your_api_key',
+ *   offline: { storage: new FileStorage('.feedbackkit/outbox.json') }
+ * });
+ * ```
+ */
+export class FileStorage implements StorageAdapter {
+  private values: Promise<Record<string, string>> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const values = await this.load();
+    return values[key] ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const values = await this.load();
+    values[key] = value;
+    await this.persist(values);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const values = await this.load();
+    delete values[key];
+    await this.persist(values);
+  }
+
+  private load(): Promise<Record<string, string>> {
+    if (!this.values) {
+      this.values = readFile(this.filePath, 'utf8').then(
+        (text) => JSON.parse(text) as Record<string, string>,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') {
+            return {};
+          }
+          throw error;
+        }
+      );
+    }
+    return this.values;
+  }
+
+  private persist(values: Record<string, string>): Promise<void> {
+    // Serialize writes so an older snapshot never overwrites a newer one
+    const write = this.writes.then(async () => {
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(values), 'utf8');
+      await rename(tempPath, this.filePath);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
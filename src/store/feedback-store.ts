@@ -0,0 +1,297 @@
+/**
+ * Feedback Store
+ *
+ * Framework-agnostic observable state for feedback UIs.
+ */
+
+import { FeedbackApi } from '../api/feedback';
+import { VotesApi } from '../api/votes';
+import { FeedbackKitError, ForbiddenError, QueuedError, toFeedbackKitError } from '../models/errors';
+import {
+  Feedback,
+  FeedbackStatus,
+  ListFeedbackOptions,
+  VoteRequest,
+  UnvoteRequest,
+  VoteResponse
+} from '../models/types';
+
+/**
+ * Statuses the server refuses votes for
+ */
+const VOTING_CLOSED_STATUSES: ReadonlySet<FeedbackStatus> = new Set([
+  FeedbackStatus.Completed,
+  FeedbackStatus.Rejected
+]);
+
+/**
+ * Store state
+ *
+ * State objects are immutable; every change produces a new state.
+ */
+export interface FeedbackStoreState {
+  /** Feedback items by ID */
+  entities: Readonly<Record<string, Feedback>>;
+  /** IDs from the last `load()`, in server order */
+  ids: readonly string[];
+  /** Loading status of the last `load()` */
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  /** Error from the last `load()` or `refresh()` */
+  error: FeedbackKitError | null;
+  /** IDs of feedback items with a vote/unvote in flight */
+  pendingVotes: Readonly<Record<string, boolean>>;
+}
+
+/**
+ * Listener called with the new state after every change
+ */
+export type FeedbackStoreListener = (state: FeedbackStoreState) => void;
+
+/**
+ * Select all feedback from the last load, in order
+ */
+export function selectFeedbackList(state: FeedbackStoreState): Feedback[] {
+  return state.ids.map((id) => state.entities[id]).filter((item): item is Feedback => Boolean(item));
+}
+
+/**
+ * Select a single feedback item
+ */
+export function selectFeedbackById(state: FeedbackStoreState, feedbackId: string): Feedback | undefined {
+  return state.entities[feedbackId];
+}
+
+/**
+ * Whether votes for a feedback item are accepted
+ */
+export function canVote(feedback: Pick<Feedback, 'status'>): boolean {
+  return !VOTING_CLOSED_STATUSES.has(feedback.status);
+}
+
+/**
+ * Observable store of normalized feedback with optimistic voting
+ *
+ * @example
+ * ```ts
+ * const store = new FeedbackStore(feedbackKit.feedback, feedbackKit.votes);
+ *
+ * const unsubscribe = store.select(selectFeedbackList, (items) => render(items));
+ * await store.load({ status: FeedbackStatus.Approved });
+ *
+ * // Updates the UI immediately, rolls back if the server refuses
+ * await store.vote('feedback-id', { userId: 'user_12345' });
+ * ```
+ */
+export class FeedbackStore {
+  private state: FeedbackStoreState = {
+    entities: {},
+    ids: [],
+    status: 'idle',
+    error: null,
+    pendingVotes: {}
+  };
+  private listeners = new Set<FeedbackStoreListener>();
+  /** Last vote or unvote started per feedback item */
+  private actions = new Map<string, Promise<VoteResponse>>();
+
+  constructor(
+    private feedbackApi: FeedbackApi,
+    private votesApi: VotesApi
+  ) {}
+
+  /**
+   * Get the current state
+   */
+  getState(): FeedbackStoreState {
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: FeedbackStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for changes of a derived value
+   *
+   * The listener is called immediately with the current value and then
+   * whenever the selected value changes (compared with `isEqual`).
+   *
+   * @returns A function that removes the listener
+   */
+  select<T>(
+    selector: (state: FeedbackStoreState) => T,
+    listener: (value: T) => void,
+    isEqual: (a: T, b: T) => boolean = shallowEqual
+  ): () => void {
+    let current = selector(this.state);
+    listener(current);
+
+    return this.subscribe((state) => {
+      const next = selector(state);
+      if (!isEqual(current, next)) {
+        current = next;
+        listener(next);
+      }
+    });
+  }
+
+  /**
+   * Load the feedback list into the store
+   *
+   * @param options - Filter options passed to `feedback.list`
+   */
+  async load(options?: ListFeedbackOptions): Promise<Feedback[]> {
+    this.setState({ status: 'loading', error: null });
+
+    try {
+      const items = await this.feedbackApi.list(options);
+      const entities = { ...this.state.entities };
+      items.forEach((item) => {
+        entities[item.id] = item;
+      });
+      this.setState({ entities, ids: items.map((item) => item.id), status: 'ready' });
+      return items;
+    } catch (error) {
+      this.setState({ status: 'error', error: toFeedbackKitError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a single feedback item and store it
+   */
+  async refresh(feedbackId: string): Promise<Feedback> {
+    try {
+      const item = await this.feedbackApi.get(feedbackId);
+      this.upsert(item);
+      return item;
+    } catch (error) {
+      this.setState({ error: toFeedbackKitError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Add or replace a feedback item (e.g. after `feedback.create`)
+   */
+  upsert(feedback: Feedback): void {
+    const ids = this.state.ids.includes(feedback.id) ? this.state.ids : [...this.state.ids, feedback.id];
+    this.setState({ entities: { ...this.state.entities, [feedback.id]: feedback }, ids });
+  }
+
+  /**
+   * Vote for a feedback item optimistically
+   *
+   * `hasVoted` and `voteCount` change immediately, are reconciled with the
+   * server response and rolled back if the request fails. A vote queued for
+   * replay while offline (`QueuedError`) keeps the optimistic state. Votes
+   * and unvotes of the same item run one after another.
+   *
+   * @throws ForbiddenError without a request if the item is completed or rejected
+   */
+  async vote(feedbackId: string, request: VoteRequest): Promise<VoteResponse> {
+    const item = this.state.entities[feedbackId];
+    if (item && !canVote(item)) {
+      throw new ForbiddenError(`Cannot vote on ${item.status} feedback`);
+    }
+
+    return this.optimistic(feedbackId, true, () => this.votesApi.vote(feedbackId, request));
+  }
+
+  /**
+   * Remove a vote optimistically
+   *
+   * Rolled back if the request fails; see `vote`.
+   */
+  async unvote(feedbackId: string, request: UnvoteRequest): Promise<VoteResponse> {
+    return this.optimistic(feedbackId, false, () => this.votesApi.unvote(feedbackId, request));
+  }
+
+  private optimistic(
+    feedbackId: string,
+    hasVoted: boolean,
+    send: () => Promise<VoteResponse>
+  ): Promise<VoteResponse> {
+    // Wait for an action already in flight for the item, so each one starts
+    // from settled state and a rollback can't undo a later action
+    const previous = this.actions.get(feedbackId);
+    const run = () => this.apply(feedbackId, hasVoted, send);
+    const action = previous ? previous.catch(() => undefined).then(run) : run();
+    this.actions.set(feedbackId, action);
+    this.setPending(feedbackId, true);
+
+    return action.finally(() => {
+      if (this.actions.get(feedbackId) === action) {
+        this.actions.delete(feedbackId);
+        this.setPending(feedbackId, false);
+      }
+    });
+  }
+
+  private async apply(
+    feedbackId: string,
+    hasVoted: boolean,
+    send: () => Promise<VoteResponse>
+  ): Promise<VoteResponse> {
+    const before = this.state.entities[feedbackId];
+
+    if (before && before.hasVoted !== hasVoted) {
+      this.patch(feedbackId, {
+        hasVoted,
+        voteCount: Math.max(0, before.voteCount + (hasVoted ? 1 : -1))
+      });
+    }
+
+    try {
+      const response = await send();
+      this.patch(feedbackId, { hasVoted: response.hasVoted, voteCount: response.voteCount });
+      return response;
+    } catch (error) {
+      // A queued vote is sent later; show it as done until then
+      if (before && !(error instanceof QueuedError)) {
+        this.patch(feedbackId, { hasVoted: before.hasVoted, voteCount: before.voteCount });
+      }
+      throw error;
+    }
+  }
+
+  private patch(feedbackId: string, changes: Partial<Feedback>): void {
+    const item = this.state.entities[feedbackId];
+    if (item) {
+      this.setState({ entities: { ...this.state.entities, [feedbackId]: { ...item, ...changes } } });
+    }
+  }
+
+  private setPending(feedbackId: string, pending: boolean): void {
+    const pendingVotes = { ...this.state.pendingVotes };
+    if (pending) {
+      pendingVotes[feedbackId] = true;
+    } else {
+      delete pendingVotes[feedbackId];
+    }
+    this.setState({ pendingVotes });
+  }
+
+  private setState(changes: Partial<FeedbackStoreState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+  }
+  return false;
+}
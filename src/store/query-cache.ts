@@ -0,0 +1,219 @@
+/**
+ * Query Cache
+ *
+ * Shared read state behind the framework bindings: one entry per query key,
+ * deduplicated loads, and in-place updates after mutations.
+ */
+
+import { FeedbackKitError, toFeedbackKitError } from '../models/errors';
+import { Feedback } from '../models/types';
+
+/**
+ * How long an entry without observers is kept, in ms
+ */
+export const QUERY_GC_TIME = 5 * 60 * 1000;
+
+/**
+ * Kind of data held by an entry, used to target updates
+ */
+export type QueryKind = 'feedback' | 'list' | 'comments';
+
+/**
+ * A cached query
+ */
+export interface QueryEntry<T = unknown> {
+  kind: QueryKind;
+  status: 'pending' | 'success' | 'error';
+  /** Last loaded data, kept while reloading */
+  data: T | undefined;
+  error: FeedbackKitError | null;
+  /** The load in flight, or the last settled one */
+  promise: Promise<void>;
+  load: () => Promise<T>;
+}
+
+/**
+ * Query cache for one client
+ *
+ * Entries are kept while a hook or composable observes them; once the last
+ * observer is gone they are removed after `gcTime` ms, so keys that are no
+ * longer shown (old filters, other users) don't pile up.
+ */
+export class QueryCache {
+  private entries = new Map<string, QueryEntry>();
+  private observers = new Map<string, number>();
+  private gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  constructor(private gcTime = QUERY_GC_TIME) {}
+
+  /**
+   * Subscribe to changes; returns an unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Keep a key's entry while it is shown; returns a function that stops observing
+   */
+  observe(key: string): () => void {
+    this.observers.set(key, (this.observers.get(key) ?? 0) + 1);
+    clearTimeout(this.gcTimers.get(key));
+    this.gcTimers.delete(key);
+
+    let observing = true;
+    return () => {
+      if (!observing) {
+        return;
+      }
+      observing = false;
+      const count = (this.observers.get(key) ?? 1) - 1;
+      if (count > 0) {
+        this.observers.set(key, count);
+      } else {
+        this.observers.delete(key);
+        this.scheduleGc(key);
+      }
+    };
+  }
+
+  /**
+   * Counter incremented on every change
+   */
+  getVersion = (): number => this.version;
+
+  get<T>(key: string): QueryEntry<T> | undefined {
+    return this.entries.get(key) as QueryEntry<T> | undefined;
+  }
+
+  /**
+   * Return the entry for a key, starting its load if there is none
+   *
+   * Doesn't notify listeners, so it can be called while rendering.
+   */
+  ensure<T>(key: string, kind: QueryKind, load: () => Promise<T>): QueryEntry<T> {
+    return this.get<T>(key) ?? this.fetch(key, kind, load, false);
+  }
+
+  /**
+   * (Re)load a key, keeping previous data until the load settles
+   */
+  fetch<T>(key: string, kind: QueryKind, load: () => Promise<T>, notify = true): QueryEntry<T> {
+    const previous = this.get<T>(key);
+    const entry: QueryEntry<T> = {
+      kind,
+      status: 'pending',
+      data: previous?.data,
+      error: null,
+      load,
+      promise: load().then(
+        (data) => {
+          this.settle(key, entry.promise, { status: 'success', data, error: null });
+        },
+        (error: unknown) => {
+          this.settle(key, entry.promise, { status: 'error', error: toFeedbackKitError(error) });
+        }
+      )
+    };
+    this.entries.set(key, entry as QueryEntry);
+    if (!this.observers.has(key)) {
+      this.scheduleGc(key);
+    }
+    if (notify) {
+      this.notify();
+    }
+    return entry;
+  }
+
+  /**
+   * Remove an errored entry nothing observes once the current render is done
+   *
+   * Called when a suspense render throws the error to an error boundary, so
+   * rendering again after the boundary resets starts a fresh load. React's
+   * immediate retry of the failed render still sees the error.
+   */
+  dropError(key: string): void {
+    const entry = this.entries.get(key);
+    void Promise.resolve().then(() => {
+      if (entry?.status === 'error' && this.entries.get(key) === entry && !this.observers.has(key)) {
+        clearTimeout(this.gcTimers.get(key));
+        this.gcTimers.delete(key);
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Reload every entry of a kind
+   */
+  invalidate(kind: QueryKind): void {
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.kind === kind) {
+        this.fetch(key, kind, entry.load);
+      }
+    }
+  }
+
+  /**
+   * Apply a change to a feedback item wherever it is cached
+   */
+  updateFeedback(feedbackId: string, patch: Partial<Feedback>): void {
+    const update = (item: Feedback) => (item.id === feedbackId ? { ...item, ...patch } : item);
+    for (const [key, entry] of this.entries) {
+      if (entry.data === undefined) {
+        continue;
+      }
+      if (entry.kind === 'feedback') {
+        this.entries.set(key, { ...entry, data: update(entry.data as Feedback) });
+      } else if (entry.kind === 'list') {
+        this.entries.set(key, { ...entry, data: (entry.data as Feedback[]).map(update) });
+      }
+    }
+    this.notify();
+  }
+
+  private settle(key: string, promise: Promise<void>, changes: Partial<QueryEntry>): void {
+    // Ignore loads superseded by a later fetch of the same key
+    const current = this.entries.get(key);
+    if (current?.promise !== promise) {
+      return;
+    }
+    this.entries.set(key, { ...current, ...changes });
+    this.notify();
+  }
+
+  private scheduleGc(key: string): void {
+    clearTimeout(this.gcTimers.get(key));
+    const timer = setTimeout(() => {
+      this.gcTimers.delete(key);
+      this.entries.delete(key);
+    }, this.gcTime);
+    // Don't keep Node processes alive just for the cache
+    (timer as { unref?: () => void }).unref?.();
+    this.gcTimers.set(key, timer);
+  }
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const caches = new WeakMap<object, QueryCache>();
+
+/**
+ * The query cache of a client, created on first use
+ */
+export function queryCacheFor(client: object): QueryCache {
+  let cache = caches.get(client);
+  if (!cache) {
+    cache = new QueryCache();
+    caches.set(client, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,650 @@
+/**
+ * Fake FeedbackKit Server
+ *
+ * In-memory implementation of the FeedbackKit API for tests. It speaks the
+ * same wire format as the real server (snake_case JSON, `{ error, reason }`
+ * error bodies) and enforces the same business rules.
+ */
+
+import { camelToSnake, snakeToCamel } from '../utils/http';
+import { generateId } from '../utils/id';
+import { TransportResponse } from '../utils/transport';
+import {
+  validateCreateFeedback,
+  validateCreateComment,
+  validateVote,
+  validateRegisterUser,
+  validateAlias
+} from '../utils/validation';
+import {
+  Feedback,
+  Comment,
+  SDKUser,
+  TrackedEvent,
+  FeedbackStatus,
+  FeedbackCategory,
+  FeedbackSort,
+  HttpMethod,
+  CreateFeedbackRequest,
+  CreateCommentRequest,
+  VoteRequest,
+  RegisterUserRequest,
+  AliasUserRequest,
+  TrackEventRequest,
+  FieldError
+} from '../models/types';
+
+/**
+ * Fake server options
+ */
+export interface FakeServerOptions {
+  /** The only API key accepted; by default any key starting with `sf_` is accepted */
+  apiKey?: string;
+  /** Refuse writes with 403, like an archived project */
+  archived?: boolean;
+  /** Maximum number of feedback items; creating more returns 402 like the Free tier */
+  feedbackLimit?: number;
+  /** Support `POST /users/alias`, which not every server has (defaults to false) */
+  aliases?: boolean;
+}
+
+/**
+ * A request received by the fake server
+ */
+export interface RecordedCall {
+  /** HTTP method */
+  method: HttpMethod;
+  /** API path without the base URL (e.g. `/feedbacks/fb_1/votes`) */
+  path: string;
+  /** Query parameters (snake_case, as sent) */
+  query: Record<string, string[]>;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Parsed JSON body, camelCased */
+  body: unknown;
+  /** Status the server responded with */
+  status: number;
+}
+
+/**
+ * Feedback to seed; omitted fields get defaults
+ */
+export type SeedFeedback = Partial<Omit<Feedback, 'hasVoted'>> & {
+  title: string;
+  /** Users who have voted (counted in `voteCount` unless it is given) */
+  voters?: string[];
+};
+
+/**
+ * Comment to seed; omitted fields get defaults
+ */
+export type SeedComment = Partial<Comment> & { content: string };
+
+/**
+ * A stored feedback item
+ */
+interface FeedbackRecord extends Omit<Feedback, 'hasVoted' | 'totalMrr'> {
+  voters: Set<string>;
+}
+
+/**
+ * A route handler's result
+ */
+interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * A request as seen by route handlers
+ */
+interface RouteRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  userId: string | undefined;
+}
+
+type RouteHandler = (request: RouteRequest) => RouteResult;
+
+/**
+ * A request body as sent over the wire, where the user ID is always set
+ */
+type WireBody<T extends { userId?: string }> = T & { userId: string };
+
+/**
+ * Error response raised by route handlers
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-memory FeedbackKit backend
+ *
+ * Pass `server.fetch` as the client's `fetch` option, seed data with the
+ * `seed*` helpers and inspect `server.calls` afterwards.
+ *
+ * @example
+ * ```ts
+ * import { FeedbackKit } from 'feedbackkit-js';
+ * import { FakeFeedbackKitServer } from 'feedbackkit-js/testing';
+ *
+ * const server = new FakeFeedbackKitServer();
+ * const feedback = server.seedFeedback({ title: 'Dark mode', voters: ['user_1'] });
+ * const client = new FeedbackKit({ apiKey: 'sf_test', userId: 'user_2', fetch: server.fetch });
+ *
+ * await client.votes.vote(feedback.id, { userId: 'user_2' });
+ *
+ * expect(server.getFeedback(feedback.id)?.voteCount).toBe(2);
+ * expect(server.callsTo('POST', `/feedbacks/${feedback.id}/votes`)).toHaveLength(1);
+ * ```
+ */
+export class FakeFeedbackKitServer {
+  /** Every request received, oldest first */
+  public readonly calls: RecordedCall[] = [];
+
+  private options: FakeServerOptions;
+  private feedbacks = new Map<string, FeedbackRecord>();
+  private comments = new Map<string, Comment[]>();
+  private users = new Map<string, SDKUser>();
+  private trackedEvents: TrackedEvent[] = [];
+  private lastTimestamp = 0;
+
+  private routes: Array<[HttpMethod, RegExp, RouteHandler]> = [
+    ['GET', /^\/feedbacks$/, (request) => this.listFeedback(request)],
+    ['POST', /^\/feedbacks$/, (request) => this.createFeedback(request)],
+    ['GET', /^\/feedbacks\/([^/]+)$/, (request) => this.showFeedback(request)],
+    ['POST', /^\/feedbacks\/([^/]+)\/votes$/, (request) => this.vote(request)],
+    ['DELETE', /^\/feedbacks\/([^/]+)\/votes$/, (request) => this.unvote(request)],
+    ['GET', /^\/feedbacks\/([^/]+)\/comments$/, (request) => this.listComments(request)],
+    ['POST', /^\/feedbacks\/([^/]+)\/comments$/, (request) => this.createComment(request)],
+    ['POST', /^\/users\/register$/, (request) => this.registerUser(request)],
+    ['POST', /^\/users\/alias$/, (request) => this.aliasUser(request)],
+    ['POST', /^\/events\/track$/, (request) => this.trackEvent(request)]
+  ];
+
+  constructor(options: FakeServerOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * fetch-compatible entry point; pass it as the client's `fetch` option
+   */
+  readonly fetch = async (input: string, init: RequestInit = {}): Promise<TransportResponse> => {
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const url = new URL(input);
+    const method = (init.method ?? 'GET').toUpperCase() as HttpMethod;
+    const path = url.pathname.match(/(\/(?:feedbacks|users|events)(?:\/.*)?)$/)?.[1] ?? url.pathname;
+    const headers = { ...(init.headers as Record<string, string> | undefined) };
+    const body = typeof init.body === 'string' ? snakeToCamel(JSON.parse(init.body)) : undefined;
+
+    const result = this.handle(method, path, url.searchParams, headers, body);
+
+    const query: Record<string, string[]> = {};
+    url.searchParams.forEach((value, key) => {
+      (query[key] ??= []).push(value);
+    });
+    this.calls.push({ method, path, query, headers, body, status: result.status });
+
+    return jsonResponse(result.status, camelToSnake(result.body));
+  };
+
+  /**
+   * Change server options (e.g. archive the project mid-test)
+   */
+  configure(options: FakeServerOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Add a feedback item
+   *
+   * @returns The stored feedback, as seen by an anonymous user
+   */
+  seedFeedback(seed: SeedFeedback): Feedback {
+    const { voters = [], ...fields } = seed;
+    const now = this.timestamp();
+    const record: FeedbackRecord = {
+      id: generateId(),
+      description: '',
+      status: FeedbackStatus.Pending,
+      category: FeedbackCategory.Other,
+      userId: 'seed_user',
+      commentCount: 0,
+      createdAt: now,
+      updatedAt: now,
+      ...fields,
+      voteCount: fields.voteCount ?? voters.length,
+      voters: new Set(voters)
+    };
+    this.feedbacks.set(record.id, record);
+    return this.view(record, undefined);
+  }
+
+  /**
+   * Add a comment to a seeded feedback item
+   */
+  seedComment(feedbackId: string, seed: SeedComment): Comment {
+    const record = this.findFeedback(feedbackId);
+    const comment: Comment = {
+      id: generateId(),
+      userId: 'seed_user',
+      isAdmin: false,
+      createdAt: this.timestamp(),
+      ...seed
+    };
+    this.commentsOf(feedbackId).push(comment);
+    record.commentCount++;
+    return { ...comment };
+  }
+
+  /**
+   * Register a user (its MRR counts towards `totalMrr` of voted feedback)
+   */
+  seedUser(seed: WireBody<RegisterUserRequest>): SDKUser {
+    return { ...this.upsertUser(seed.userId, seed.mrr) };
+  }
+
+  /**
+   * Get a stored feedback item
+   *
+   * @param userId - User to compute `hasVoted` for
+   */
+  getFeedback(feedbackId: string, userId?: string): Feedback | undefined {
+    const record = this.feedbacks.get(feedbackId);
+    return record ? this.view(record, userId) : undefined;
+  }
+
+  /**
+   * Get all stored feedback items, in insertion order
+   */
+  getAllFeedback(userId?: string): Feedback[] {
+    return [...this.feedbacks.values()].map((record) => this.view(record, userId));
+  }
+
+  /**
+   * Get the users who voted for a feedback item
+   */
+  getVoters(feedbackId: string): string[] {
+    return [...(this.feedbacks.get(feedbackId)?.voters ?? [])];
+  }
+
+  /**
+   * Get the comments of a feedback item
+   */
+  getComments(feedbackId: string): Comment[] {
+    return (this.comments.get(feedbackId) ?? []).map((comment) => ({ ...comment }));
+  }
+
+  /**
+   * Get a registered user
+   */
+  getUser(userId: string): SDKUser | undefined {
+    const user = this.users.get(userId);
+    return user ? { ...user } : undefined;
+  }
+
+  /**
+   * Get all tracked events, oldest first
+   */
+  getEvents(): TrackedEvent[] {
+    return this.trackedEvents.map((event) => ({ ...event }));
+  }
+
+  /**
+   * Recorded calls matching a method and path
+   *
+   * @param method - HTTP method
+   * @param path - Exact path, or a pattern tested against it
+   */
+  callsTo(method: HttpMethod, path: string | RegExp): RecordedCall[] {
+    return this.calls.filter(
+      (call) => call.method === method && (typeof path === 'string' ? call.path === path : path.test(call.path))
+    );
+  }
+
+  /**
+   * Remove all data and recorded calls
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.feedbacks.clear();
+    this.comments.clear();
+    this.users.clear();
+    this.trackedEvents = [];
+  }
+
+  private handle(
+    method: HttpMethod,
+    path: string,
+    query: URLSearchParams,
+    headers: Record<string, string>,
+    body: unknown
+  ): RouteResult {
+    try {
+      const apiKey = header(headers, 'X-API-Key');
+      const validKey = this.options.apiKey ? apiKey === this.options.apiKey : apiKey?.startsWith('sf_');
+      if (!validKey) {
+        throw new HttpError(401, 'Invalid API key');
+      }
+
+      for (const [routeMethod, pattern, handler] of this.routes) {
+        const match = routeMethod === method ? path.match(pattern) : null;
+        if (match) {
+          return handler({
+            params: match.slice(1).map(decodeURIComponent),
+            query,
+            body: (body ?? {}) as Record<string, unknown>,
+            userId: header(headers, 'X-User-Id')
+          });
+        }
+      }
+
+      throw new HttpError(404, `No route for ${method} ${path}`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return { status: error.status, body: { error: true, reason: error.message } };
+      }
+      throw error;
+    }
+  }
+
+  private listFeedback({ query, userId }: RouteRequest): RouteResult {
+    const statuses = query.getAll('status');
+    const categories = query.getAll('category');
+    const includeMerged = query.get('include_merged') === 'true';
+
+    const items = [...this.feedbacks.values()]
+      .filter((record) => statuses.length === 0 || statuses.includes(record.status))
+      .filter((record) => categories.length === 0 || categories.includes(record.category))
+      .filter((record) => includeMerged || !record.mergedIntoId)
+      .map((record) => this.view(record, userId))
+      .sort(compareBy(query.get('sort') ?? FeedbackSort.Votes));
+
+    const limit = query.get('limit');
+    if (limit === null) {
+      return { status: 200, body: items };
+    }
+
+    const offset = Number(query.get('cursor') ?? 0);
+    const end = offset + Number(limit);
+    return {
+      status: 200,
+      body: {
+        items: items.slice(offset, end),
+        nextCursor: end < items.length ? String(end) : null,
+        total: items.length
+      }
+    };
+  }
+
+  private showFeedback({ params, userId }: RouteRequest): RouteResult {
+    return { status: 200, body: this.view(this.findFeedback(params[0]), userId) };
+  }
+
+  private createFeedback({ body, userId }: RouteRequest): RouteResult {
+    const request = body as unknown as WireBody<CreateFeedbackRequest>;
+    assertFields(validateCreateFeedback(request));
+    this.assertWritable();
+
+    if (this.options.feedbackLimit !== undefined && this.feedbacks.size >= this.options.feedbackLimit) {
+      throw new HttpError(402, 'Feedback limit reached. Upgrade your plan to collect more feedback.');
+    }
+
+    const now = this.timestamp();
+    const record: FeedbackRecord = {
+      id: generateId(),
+      title: request.title,
+      description: request.description,
+      status: FeedbackStatus.Pending,
+      category: request.category,
+      userId: request.userId,
+      userEmail: request.userEmail ?? null,
+      // The creator automatically votes for their own feedback
+      voteCount: 1,
+      voters: new Set([request.userId]),
+      commentCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.feedbacks.set(record.id, record);
+
+    return { status: 200, body: this.view(record, userId ?? request.userId) };
+  }
+
+  private vote({ params, body }: RouteRequest): RouteResult {
+    const request = body as unknown as WireBody<VoteRequest>;
+    assertFields(validateVote(params[0], request));
+
+    const record = this.findFeedback(params[0]);
+    this.assertWritable();
+
+    if (record.status === FeedbackStatus.Completed || record.status === FeedbackStatus.Rejected) {
+      throw new HttpError(403, `Cannot vote on ${record.status} feedback`);
+    }
+    if (record.voters.has(request.userId)) {
+      throw new HttpError(409, 'User has already voted for this feedback');
+    }
+
+    record.voters.add(request.userId);
+    record.voteCount++;
+    return this.voteResult(record, request.userId);
+  }
+
+  private unvote({ params, body }: RouteRequest): RouteResult {
+    const userId = body.userId as string;
+    assertFields(validateVote(params[0], { userId }));
+
+    const record = this.findFeedback(params[0]);
+    this.assertWritable();
+
+    if (!record.voters.has(userId)) {
+      throw new HttpError(404, 'Vote not found');
+    }
+
+    record.voters.delete(userId);
+    record.voteCount = Math.max(0, record.voteCount - 1);
+    return this.voteResult(record, userId);
+  }
+
+  private listComments({ params }: RouteRequest): RouteResult {
+    this.findFeedback(params[0]);
+    const comments = [...this.commentsOf(params[0])].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { status: 200, body: comments };
+  }
+
+  private createComment({ params, body }: RouteRequest): RouteResult {
+    const request = body as unknown as WireBody<CreateCommentRequest>;
+    assertFields(validateCreateComment(params[0], request));
+
+    const record = this.findFeedback(params[0]);
+    this.assertWritable();
+
+    const comment: Comment = {
+      id: generateId(),
+      content: request.content,
+      userId: request.userId,
+      isAdmin: request.isAdmin ?? false,
+      createdAt: this.timestamp()
+    };
+    this.commentsOf(record.id).push(comment);
+    record.commentCount++;
+
+    return { status: 200, body: comment };
+  }
+
+  private registerUser({ body }: RouteRequest): RouteResult {
+    const request = body as unknown as WireBody<RegisterUserRequest>;
+    assertFields(validateRegisterUser(request));
+    return { status: 200, body: this.upsertUser(request.userId, request.mrr) };
+  }
+
+  private aliasUser({ body }: RouteRequest): RouteResult {
+    if (!this.options.aliases) {
+      throw new HttpError(404, 'No route for POST /users/alias');
+    }
+    const { previousId, userId } = body as unknown as WireBody<AliasUserRequest>;
+    assertFields(validateAlias({ previousId, userId }));
+
+    for (const record of this.feedbacks.values()) {
+      if (record.userId === previousId) {
+        record.userId = userId;
+      }
+      if (record.voters.delete(previousId)) {
+        if (record.voters.has(userId)) {
+          record.voteCount = Math.max(0, record.voteCount - 1);
+        } else {
+          record.voters.add(userId);
+        }
+      }
+    }
+    for (const comments of this.comments.values()) {
+      comments.filter((comment) => comment.userId === previousId).forEach((comment) => {
+        comment.userId = userId;
+      });
+    }
+    this.trackedEvents.filter((event) => event.userId === previousId).forEach((event) => {
+      event.userId = userId;
+    });
+
+    const previous = this.users.get(previousId);
+    if (previous) {
+      this.users.delete(previousId);
+      const target = this.users.get(userId);
+      this.users.set(userId, {
+        ...previous,
+        ...target,
+        userId,
+        mrr: target?.mrr ?? previous.mrr,
+        firstSeenAt: target && target.firstSeenAt < previous.firstSeenAt ? target.firstSeenAt : previous.firstSeenAt
+      });
+    }
+    return { status: 200, body: this.upsertUser(userId, undefined) };
+  }
+
+  private trackEvent({ body }: RouteRequest): RouteResult {
+    return { status: 200, body: this.storeEvent(body as unknown as WireBody<TrackEventRequest>) };
+  }
+
+  private storeEvent(request: TrackEventRequest): TrackedEvent {
+    if (!request.eventName || !request.userId) {
+      throw new HttpError(400, 'eventName and userId are required');
+    }
+
+    const event: TrackedEvent = {
+      id: generateId(),
+      eventName: request.eventName,
+      userId: request.userId,
+      properties: request.properties ?? null,
+      createdAt: this.timestamp()
+    };
+    this.trackedEvents.push(event);
+    return event;
+  }
+
+  private upsertUser(userId: string, mrr: number | undefined): SDKUser {
+    const now = this.timestamp();
+    const existing = this.users.get(userId);
+    const user: SDKUser = {
+      id: existing?.id ?? generateId(),
+      userId,
+      mrr: mrr ?? existing?.mrr ?? null,
+      firstSeenAt: existing?.firstSeenAt ?? now,
+      lastSeenAt: now
+    };
+    this.users.set(userId, user);
+    return user;
+  }
+
+  private voteResult(record: FeedbackRecord, userId: string): RouteResult {
+    record.updatedAt = this.timestamp();
+    return {
+      status: 200,
+      body: { feedbackId: record.id, voteCount: record.voteCount, hasVoted: record.voters.has(userId) }
+    };
+  }
+
+  private view(record: FeedbackRecord, userId: string | undefined): Feedback {
+    const { voters, ...feedback } = record;
+    const totalMrr = [...voters].reduce((sum, voter) => sum + (this.users.get(voter)?.mrr ?? 0), 0);
+    return {
+      ...feedback,
+      hasVoted: userId !== undefined && voters.has(userId),
+      totalMrr
+    };
+  }
+
+  private findFeedback(feedbackId: string): FeedbackRecord {
+    const record = this.feedbacks.get(feedbackId);
+    if (!record) {
+      throw new HttpError(404, 'Feedback not found');
+    }
+    return record;
+  }
+
+  private commentsOf(feedbackId: string): Comment[] {
+    let comments = this.comments.get(feedbackId);
+    if (!comments) {
+      comments = [];
+      this.comments.set(feedbackId, comments);
+    }
+    return comments;
+  }
+
+  private assertWritable(): void {
+    if (this.options.archived) {
+      throw new HttpError(403, 'Project is archived');
+    }
+  }
+
+  /**
+   * Current time as an ISO string, strictly increasing so sort order is stable
+   */
+  private timestamp(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+}
+
+function assertFields(errors: FieldError[]): void {
+  if (errors.length > 0) {
+    throw new HttpError(400, errors.map((error) => error.message).join('; '));
+  }
+}
+
+function compareBy(sort: string): (a: Feedback, b: Feedback) => number {
+  switch (sort) {
+    case FeedbackSort.Newest:
+      return (a, b) => b.createdAt.localeCompare(a.createdAt);
+    case FeedbackSort.RecentlyUpdated:
+      return (a, b) => b.updatedAt.localeCompare(a.updatedAt);
+    case FeedbackSort.Mrr:
+      return (a, b) => (b.totalMrr ?? 0) - (a.totalMrr ?? 0);
+    default:
+      return (a, b) => b.voteCount - a.voteCount;
+  }
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}
+
+function jsonResponse(status: number, body: unknown): TransportResponse {
+  const text = JSON.stringify(body);
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: {
+      get: (name) => (name.toLowerCase() === 'content-type' ? 'application/json' : null)
+    },
+    json: async () => JSON.parse(text),
+    text: async () => text
+  };
+}
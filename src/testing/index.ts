@@ -0,0 +1,8 @@
+/**
+ * FeedbackKit testing utilities
+ *
+ * Import from `feedbackkit-js/testing`; not part of the main bundle.
+ */
+
+export { FakeFeedbackKitServer } from './fake-server';
+export type { FakeServerOptions, RecordedCall, SeedFeedback, SeedComment } from './fake-server';
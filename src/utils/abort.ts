@@ -0,0 +1,35 @@
+/**
+ * AbortSignal helpers
+ */
+
+import { AbortedError } from '../models/errors';
+
+/**
+ * Settle with the promise, or reject with AbortedError once the signal fires
+ *
+ * The underlying work is not cancelled; use this for work shared between
+ * callers where one caller giving up must not affect the others.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new AbortedError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -1,9 +1,38 @@
 /**
  * HTTP Client for FeedbackKit API
- * Zero dependencies - uses native fetch
+ * Zero dependencies - uses native fetch unless a custom transport is configured
  */
 
-import { createErrorFromResponse, NetworkError } from '../models/errors';
+import {
+  createErrorFromResponse,
+  AbortedError,
+  ErrorContext,
+  FeedbackKitError,
+  NetworkError,
+  QueuedError,
+  ResponseDecodeError,
+  TimeoutError
+} from '../models/errors';
+import { CallOptions, HttpMethod, LogRecord, Metrics, RetryConfig, Tracer } from '../models/types';
+import {
+  ResolvedRetryConfig,
+  resolveRetryConfig,
+  isRetryableRequest,
+  computeBackoff,
+  parseRetryAfter,
+  sleep
+} from './retry';
+import { Transport, TransportRequest, TransportResponse } from './transport';
+import {
+  Interceptor,
+  InterceptedRequest,
+  InterceptedResponse,
+  isInterceptedResponse
+} from './interceptors';
+import { OfflineQueue } from '../offline/queue';
+import { raceSignal } from './abort';
+import { Logger, redactionKeys } from './logger';
+import { RequestInstrument } from './instrumentation';
 
 /**
  * Convert a snake_case string to camelCase
@@ -22,7 +51,7 @@ function camelToSnakeKey(key: string): string {
 /**
  * Recursively convert all keys in an object from snake_case to camelCase
  */
-function snakeToCamel(data: unknown): unknown {
+export function snakeToCamel(data: unknown): unknown {
   if (Array.isArray(data)) {
     return data.map(snakeToCamel);
   }
@@ -39,7 +68,7 @@ function snakeToCamel(data: unknown): unknown {
 /**
  * Recursively convert all keys in an object from camelCase to snake_case
  */
-function camelToSnake(data: unknown): unknown {
+export function camelToSnake(data: unknown): unknown {
   if (Array.isArray(data)) {
     return data.map(camelToSnake);
   }
@@ -53,28 +82,99 @@ function camelToSnake(data: unknown): unknown {
   return data;
 }
 
+/**
+ * Size of a string in bytes when encoded as UTF-8
+ */
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Response body size from the `Content-Length` header
+ */
+function contentLength(headers: { get(name: string): string | null }): number | undefined {
+  const value = headers.get('content-length');
+  return value !== null && Number.isFinite(Number(value)) ? Number(value) : undefined;
+}
+
+/**
+ * The loggable parts of an error
+ */
+function summarize(error: FeedbackKitError): NonNullable<LogRecord['error']> {
+  return { name: error.name, code: error.code, message: error.message, requestId: error.requestId };
+}
+
 export interface HttpClientConfig {
   baseUrl: string;
   apiKey: string;
   userId?: string;
   timeout: number;
+  retry?: RetryConfig | false;
+  transport: Transport;
+  logger?: Logger | null;
+  tracer?: Tracer | null;
+  metrics?: Metrics | null;
 }
 
-export interface RequestOptions {
-  method: 'GET' | 'POST' | 'DELETE' | 'PATCH' | 'PUT';
+/**
+ * Query parameters; arrays are sent as repeated keys
+ */
+export type QueryParams = Record<string, string | number | boolean | string[] | undefined>;
+
+export interface RequestOptions extends CallOptions {
+  method: HttpMethod;
   path: string;
   body?: unknown;
-  params?: Record<string, string | boolean | undefined>;
+  params?: QueryParams;
+  /** Store the request in the offline queue if it fails with a NetworkError (but not a timeout) */
+  queueable?: boolean;
+  /** Let the request outlive the page, e.g. when flushing on page hide */
+  keepalive?: boolean;
+  /** API operation for spans, metrics and logs, e.g. `votes.vote` (defaults to `METHOD /path`) */
+  operation?: string;
 }
 
 /**
- * HTTP client wrapper around fetch
+ * Per-request options accepted by the method helpers
+ */
+export type RequestExtras = Omit<RequestOptions, 'method' | 'path' | 'body' | 'params'>;
+
+/**
+ * Raw result of a single HTTP attempt
+ */
+interface HttpResult {
+  status: number;
+  ok: boolean;
+  headers: { get(name: string): string | null };
+  body: unknown;
+}
+
+/**
+ * A GET request shared by concurrent identical calls
+ */
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiting: number;
+}
+
+/**
+ * HTTP client wrapper around a transport (fetch by default)
  */
 export class HttpClient {
   private config: HttpClientConfig;
+  private retry: ResolvedRetryConfig | null;
+  private interceptors: Interceptor[] = [];
+  private outbox: OfflineQueue | null = null;
+  private inflight = new Map<string, InflightRequest>();
+  /** Names redacted from span URLs; the logger's, or the defaults without one */
+  private redactionKeys: ReadonlySet<string>;
 
   constructor(config: HttpClientConfig) {
     this.config = config;
+    this.retry = resolveRetryConfig(config.retry);
+    this.redactionKeys = config.logger?.keys ?? redactionKeys();
   }
 
   /**
@@ -84,18 +184,53 @@ export class HttpClient {
     this.config.userId = userId;
   }
 
+  /**
+   * Get the user ID sent with requests
+   */
+  getUserId(): string | undefined {
+    return this.config.userId;
+  }
+
+  /**
+   * Set the offline queue used for queueable requests
+   */
+  setOutbox(outbox: OfflineQueue | null): void {
+    this.outbox = outbox;
+  }
+
+  /**
+   * Register an interceptor
+   *
+   * @returns A function that removes the interceptor again
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Make an HTTP request to the API
+   *
+   * Concurrent identical GETs are coalesced into one request. The request
+   * passes through the registered interceptors; failed attempts are retried
+   * according to the configured retry policy.
    */
   async request<T>(options: RequestOptions): Promise<T> {
-    const { method, path, body, params } = options;
+    const { method, path, body, params, idempotencyKey } = options;
 
     // Build URL with query parameters
     let url = `${this.config.baseUrl}${path}`;
     if (params) {
       const searchParams = new URLSearchParams();
       Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
+        if (Array.isArray(value)) {
+          value.forEach((item) => searchParams.append(camelToSnakeKey(key), item));
+        } else if (value !== undefined) {
           searchParams.append(camelToSnakeKey(key), String(value));
         }
       });
@@ -115,19 +250,301 @@ export class HttpClient {
       headers['X-User-Id'] = this.config.userId;
     }
 
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
 
-    try {
-      const response = await fetch(url, {
+    Object.assign(headers, options.headers);
+
+    if (method === 'GET' && options.dedupe !== false) {
+      // Identical concurrent GETs for the same user share one request; calls
+      // with a different timeout or operation name don't, as the request
+      // runs with the options of the call that started it
+      const key = [
+        url,
+        headers['X-User-Id'] ?? '',
+        JSON.stringify(options.headers ?? {}),
+        options.timeout ?? '',
+        options.operation ?? ''
+      ].join('\n');
+      return this.shared(key, options.signal, (signal) =>
+        this.dispatch<T>({ method, url, path, headers, body }, { ...options, signal })
+      );
+    }
+
+    return this.dispatch<T>({ method, url, path, headers, body }, options);
+  }
+
+  /**
+   * Run a built request through the interceptors and send it
+   */
+  private async dispatch<T>(initial: InterceptedRequest, options: RequestOptions): Promise<T> {
+    const { method, path, body } = initial;
+    const { idempotencyKey } = options;
+
+    // Snapshot the chain so interceptors added mid-request don't apply halfway
+    const interceptors = [...this.interceptors];
+    const reversed = [...interceptors].reverse();
+
+    let request = initial;
+    let response: InterceptedResponse | undefined;
+
+    for (const interceptor of interceptors) {
+      const result = await interceptor.onRequest?.(request);
+      if (isInterceptedResponse(result)) {
+        response = result;
+        break;
+      }
+      if (result) {
+        request = result;
+      }
+    }
+
+    if (!response) {
+      try {
+        response = await this.execute(request, options);
+      } catch (error) {
+        if (!(error instanceof FeedbackKitError)) {
+          throw error;
+        }
+
+        let current = error;
+        for (const interceptor of reversed) {
+          const result = await interceptor.onError?.(current, request);
+          if (isInterceptedResponse(result)) {
+            response = result;
+            break;
+          }
+          if (result) {
+            current = result;
+          }
+        }
+
+        if (!response) {
+          // A timed-out write may have reached the server, so it isn't queued
+          if (current instanceof NetworkError && !(current instanceof TimeoutError) && options.queueable && this.outbox) {
+            const queued = await this.outbox.enqueue({ method, path, body, idempotencyKey });
+            throw new QueuedError(queued, current.message, { method, path });
+          }
+          throw current;
+        }
+      }
+    }
+
+    let finalResponse: InterceptedResponse = response;
+    for (const interceptor of reversed) {
+      const result = await interceptor.onResponse?.(finalResponse, request);
+      if (result) {
+        finalResponse = result;
+      }
+    }
+
+    return finalResponse.data as T;
+  }
+
+  /**
+   * Join an identical in-flight request or start a new one
+   *
+   * The shared request runs with its own signal, which is aborted only once
+   * every caller waiting for it has aborted.
+   */
+  private shared<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortedError());
+    }
+
+    let entry = this.inflight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const promise: Promise<unknown> = run(controller.signal).finally(() => {
+        if (this.inflight.get(key)?.promise === promise) {
+          this.inflight.delete(key);
+        }
+      });
+      // Callers handle the rejection; don't report it as unhandled if all aborted
+      promise.catch(() => undefined);
+      entry = { promise, controller, waiting: 0 };
+      this.inflight.set(key, entry);
+    }
+
+    const current = entry;
+    current.waiting++;
+
+    if (!signal) {
+      return current.promise as Promise<T>;
+    }
+
+    const onAbort = () => {
+      current.waiting--;
+      if (current.waiting === 0) {
+        // Later identical requests must start afresh rather than join this one
+        if (this.inflight.get(key) === current) {
+          this.inflight.delete(key);
+        }
+        current.controller.abort();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return raceSignal(current.promise as Promise<T>, signal).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Send a request, retrying failed attempts according to the retry policy
+   */
+  private async execute(
+    request: InterceptedRequest,
+    options: RequestOptions
+  ): Promise<InterceptedResponse> {
+    const { method, path } = request;
+    const { idempotencyKey } = options;
+    const context: ErrorContext = { method, path };
+    const operation = options.operation ?? `${method} ${path}`;
+    const { tracer, metrics } = this.config;
+    const instrument = tracer || metrics
+      ? new RequestInstrument(tracer ?? null, metrics ?? null, operation, method, request.url, this.redactionKeys)
+      : null;
+
+    const transportRequest: TransportRequest = {
+      url: request.url,
+      method,
+      // Headers set by the caller or interceptors win over the span's trace context
+      headers: { ...instrument?.headers(), ...request.headers },
+      body: request.body ? JSON.stringify(camelToSnake(request.body)) : undefined,
+      keepalive: options.keepalive
+    };
+
+    const policy = this.retry && isRetryableRequest(this.retry, method, idempotencyKey)
+      ? this.retry
+      : null;
+
+    const started = Date.now();
+    let retries = 0;
+    const log = (record: Pick<LogRecord, 'level' | 'event'> & Partial<LogRecord>) =>
+      this.config.logger?.log({
+        operation,
         method,
-        headers,
-        body: body ? JSON.stringify(camelToSnake(body)) : undefined,
-        signal: controller.signal
+        url: request.url,
+        retries,
+        requestBytes: transportRequest.body !== undefined ? byteLength(transportRequest.body) : undefined,
+        ...record
       });
 
-      clearTimeout(timeoutId);
+    log({ level: 'debug', event: 'request', headers: request.headers, body: request.body });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        let error: FeedbackKitError;
+        let retryAfter: number | undefined;
+
+        try {
+          const result = await this.send(transportRequest, options, context);
+
+          if (result.ok) {
+            log({
+              level: 'info',
+              event: 'response',
+              status: result.status,
+              duration: Date.now() - started,
+              responseBytes: contentLength(result.headers)
+            });
+            instrument?.end({ status: result.status, retries });
+            return { status: result.status, headers: result.headers, data: result.body };
+          }
+
+          retryAfter = parseRetryAfter(result.headers.get('retry-after'));
+          error = createErrorFromResponse(
+            result.status,
+            result.body as { error: boolean; reason: string } | string,
+            { ...context, headers: result.headers, body: result.body },
+            retryAfter
+          );
+
+          if (!policy?.retryStatusCodes.includes(result.status)) {
+            throw error;
+          }
+        } catch (thrown) {
+          if (!(thrown instanceof NetworkError) || !policy) {
+            throw thrown;
+          }
+          error = thrown;
+        }
+
+        if (attempt >= policy.maxAttempts) {
+          throw error;
+        }
+
+        // Never retry sooner than the server asked; give up if it asks for too long
+        const delay = retryAfter ?? computeBackoff(policy, attempt);
+        if (delay > policy.maxDelay) {
+          throw error;
+        }
+
+        policy.onRetry?.({
+          attempt,
+          delay,
+          method,
+          path,
+          statusCode: error.statusCode || undefined,
+          error
+        });
+        log({
+          level: 'warn',
+          event: 'retry',
+          status: error.statusCode || undefined,
+          duration: Date.now() - started,
+          delay,
+          error: summarize(error)
+        });
+
+        await sleep(delay, options.signal);
+        retries = attempt;
+      }
+    } catch (error) {
+      if (error instanceof FeedbackKitError) {
+        log({
+          level: error instanceof AbortedError ? 'info' : 'error',
+          event: 'error',
+          status: error.statusCode || undefined,
+          duration: Date.now() - started,
+          error: summarize(error)
+        });
+        instrument?.end({ status: error.statusCode || undefined, retries, error });
+      } else {
+        instrument?.end({ retries, error: error instanceof Error ? error : undefined });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt
+   *
+   * Throws NetworkError for connection failures, TimeoutError for timeouts,
+   * AbortedError when the caller's signal fires and ResponseDecodeError for
+   * a successful response that isn't valid JSON; HTTP error statuses are
+   * returned so the caller can decide whether to retry.
+   */
+  private async send(request: TransportRequest, options: CallOptions, context: ErrorContext): Promise<HttpResult> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AbortedError(undefined, context);
+    }
+
+    // Create abort controller for timeout, following the caller's signal
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? this.config.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: TransportResponse | undefined;
+    try {
+      response = await this.config.transport.send({ ...request, signal: controller.signal });
 
       // Parse response body
       const contentType = response.headers.get('content-type');
@@ -139,53 +556,60 @@ export class HttpClient {
         responseBody = await response.text();
       }
 
-      // Handle error responses
-      if (!response.ok) {
-        throw createErrorFromResponse(
-          response.status,
-          responseBody as { error: boolean; reason: string } | string
-        );
-      }
-
-      return responseBody as T;
+      return {
+        status: response.status,
+        ok: response.ok,
+        headers: response.headers,
+        body: responseBody
+      };
     } catch (error) {
-      clearTimeout(timeoutId);
-
-      // Re-throw FeedbackKit errors
-      if (error instanceof Error && error.name.includes('Error') && 'statusCode' in error) {
-        throw error;
+      // Cancelled by the caller
+      if (signal?.aborted) {
+        throw new AbortedError(undefined, context);
       }
 
       // Handle abort/timeout
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new NetworkError('Request timeout');
+        throw new TimeoutError(undefined, context);
+      }
+
+      // The server answered, but not with valid JSON; it's not a network error
+      if (response && error instanceof SyntaxError) {
+        if (!response.ok) {
+          return { status: response.status, ok: false, headers: response.headers, body: undefined };
+        }
+        throw new ResponseDecodeError('Invalid JSON response', [], { ...context, headers: response.headers });
       }
 
       // Handle network errors
       throw new NetworkError(
-        error instanceof Error ? error.message : 'Network error'
+        error instanceof Error ? error.message : 'Network error',
+        context
       );
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
    * GET request
    */
-  get<T>(path: string, params?: Record<string, string | boolean | undefined>): Promise<T> {
-    return this.request<T>({ method: 'GET', path, params });
+  get<T>(path: string, params?: QueryParams, extras?: RequestExtras): Promise<T> {
+    return this.request<T>({ ...extras, method: 'GET', path, params });
   }
 
   /**
    * POST request
    */
-  post<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>({ method: 'POST', path, body });
+  post<T>(path: string, body?: unknown, extras?: RequestExtras): Promise<T> {
+    return this.request<T>({ ...extras, method: 'POST', path, body });
   }
 
   /**
    * DELETE request
    */
-  delete<T>(path: string, body?: unknown): Promise<T> {
-    return this.request<T>({ method: 'DELETE', path, body });
+  delete<T>(path: string, body?: unknown, extras?: RequestExtras): Promise<T> {
+    return this.request<T>({ ...extras, method: 'DELETE', path, body });
   }
 }
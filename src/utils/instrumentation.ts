@@ -0,0 +1,126 @@
+/**
+ * Request Instrumentation
+ *
+ * A span and metrics per API request, through the minimal `Tracer` and
+ * `Metrics` interfaces, so no tracing library is required.
+ */
+
+import { AbortedError } from '../models/errors';
+import { AttributeValue, HttpMethod, Metrics, Tracer, TraceSpan } from '../models/types';
+import { redactUrl } from './logger';
+
+/** OpenTelemetry's `SpanKind.CLIENT` */
+const SPAN_KIND_CLIENT = 2;
+
+/** OpenTelemetry's `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+const METRIC_NAMES = {
+  requests: 'feedbackkit.requests',
+  failures: 'feedbackkit.request.failures',
+  duration: 'feedbackkit.request.duration'
+} as const;
+
+/**
+ * How a request ended
+ */
+export interface RequestOutcome {
+  /** HTTP status code, if a response was received */
+  status?: number;
+  /** Number of retries made */
+  retries: number;
+  /** The error that failed the request */
+  error?: Error;
+}
+
+/**
+ * Format a W3C `traceparent` header value
+ *
+ * @returns The header value, or undefined for an invalid (all-zero) context
+ */
+export function formatTraceparent(context: { traceId: string; spanId: string; traceFlags: number }): string | undefined {
+  if (/^0*$/.test(context.traceId) || /^0*$/.test(context.spanId)) {
+    return undefined;
+  }
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Span and metrics of a single request
+ *
+ * Tracer and metrics failures are swallowed so they never fail a request.
+ */
+export class RequestInstrument {
+  private started = Date.now();
+  private attributes: Record<string, AttributeValue>;
+  private span: TraceSpan | null = null;
+
+  constructor(
+    tracer: Tracer | null,
+    private metrics: Metrics | null,
+    operation: string,
+    method: HttpMethod,
+    url: string,
+    redactionKeys: ReadonlySet<string>
+  ) {
+    this.attributes = { 'feedbackkit.operation': operation, 'http.request.method': method };
+    try {
+      this.span = tracer?.startSpan(operation, {
+        kind: SPAN_KIND_CLIENT,
+        // Spans leave the process, so the URL is redacted like in log records
+        attributes: { ...this.attributes, 'url.full': redactUrl(url, redactionKeys) }
+      }) ?? null;
+    } catch {
+      this.span = null;
+    }
+  }
+
+  /**
+   * Trace context headers to send with the request
+   */
+  headers(): Record<string, string> {
+    try {
+      const context = this.span?.spanContext?.();
+      const traceparent = context && formatTraceparent(context);
+      return traceparent ? { traceparent } : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * End the span and record metrics
+   */
+  end({ status, retries, error }: RequestOutcome): void {
+    const attributes: Record<string, AttributeValue> = { ...this.attributes };
+    if (status) {
+      attributes['http.response.status_code'] = status;
+    }
+    if (error) {
+      attributes['error.type'] = error.name;
+    }
+    // Cancelling a request is not a failure
+    const failed = error !== undefined && !(error instanceof AbortedError);
+
+    try {
+      if (this.span) {
+        Object.entries(attributes).forEach(([key, value]) => this.span?.setAttribute(key, value));
+        this.span.setAttribute('feedbackkit.retries', retries);
+        if (error && failed) {
+          this.span.recordException?.(error);
+          this.span.setStatus?.({ code: SPAN_STATUS_ERROR, message: error.message });
+        }
+        this.span.end();
+      }
+
+      this.metrics?.counter(METRIC_NAMES.requests, 1, attributes);
+      this.metrics?.histogram(METRIC_NAMES.duration, Date.now() - this.started, attributes);
+      if (failed) {
+        this.metrics?.counter(METRIC_NAMES.failures, 1, attributes);
+      }
+    } catch {
+      // Instrumentation must not fail the request
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Request/response interceptors
+ *
+ * Every API module goes through `HttpClient.request`, which runs the
+ * registered interceptors around the network call.
+ */
+
+import { FeedbackKitError } from '../models/errors';
+import { HttpMethod } from '../models/types';
+
+/**
+ * An outgoing request as seen by interceptors
+ *
+ * Interceptors may mutate any field, including the URL.
+ */
+export interface InterceptedRequest {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Absolute request URL including query string */
+  url: string;
+  /** API path the request was built from (e.g. `/feedbacks`) */
+  path: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body (camelCase, serialized after interceptors run) */
+  body?: unknown;
+}
+
+/**
+ * A parsed response as seen by interceptors
+ */
+export interface InterceptedResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: { get(name: string): string | null };
+  /** Parsed response body (camelCase) */
+  data: T;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * A request/response interceptor
+ *
+ * `onRequest` hooks run in registration order; `onResponse` and `onError`
+ * hooks run in reverse order, so the first interceptor wraps all others.
+ */
+export interface Interceptor {
+  /**
+   * Inspect or modify an outgoing request
+   *
+   * Return a (new or mutated) request to continue, or a response to
+   * short-circuit the network call. Returning nothing keeps the request.
+   */
+  onRequest?(request: InterceptedRequest): MaybePromise<InterceptedRequest | InterceptedResponse | void>;
+
+  /**
+   * Inspect or replace a successful response
+   */
+  onResponse?(
+    response: InterceptedResponse,
+    request: InterceptedRequest
+  ): MaybePromise<InterceptedResponse | void>;
+
+  /**
+   * Inspect or transform an error
+   *
+   * Return an error to replace it, or a response to recover from it.
+   */
+  onError?(
+    error: FeedbackKitError,
+    request: InterceptedRequest
+  ): MaybePromise<FeedbackKitError | InterceptedResponse | void>;
+}
+
+/**
+ * Distinguish a synthetic response from a request or error returned by a hook
+ */
+export function isInterceptedResponse(value: unknown): value is InterceptedResponse {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !(value instanceof Error) &&
+    'status' in value &&
+    'data' in value
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Request logging
+ *
+ * Structured records for each request, filtered by level. Secrets and
+ * emails are redacted before a record reaches the sink.
+ */
+
+import { LogLevel, LogRecord, LogSink, LoggerConfig, DEFAULT_LOGGER_CONFIG } from '../models/types';
+
+const REDACTED = '[REDACTED]';
+
+const EMAIL_PATTERN = /[^\s@/?&=:]+(?:@|%40)[^\s@/?&=]+\.[^\s@/?&=]+/g;
+
+const QUERY_PARAM_PATTERN = /([?&])([^=&#]+)=([^&#]*)/g;
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/**
+ * Replace values of sensitive fields and email addresses with `[REDACTED]`
+ *
+ * @param keys - Lowercased field names to redact
+ */
+export function redact(value: unknown, keys: ReadonlySet<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(EMAIL_PATTERN, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, keys));
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = keys.has(key.toLowerCase()) ? REDACTED : redact(item, keys);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Redact a URL: values of sensitive query parameters and email addresses
+ *
+ * Parameter names match the keys case-insensitively, ignoring `_` and `-`,
+ * so `api_key` matches `apiKey`.
+ */
+export function redactUrl(url: string, keys: ReadonlySet<string>): string {
+  const withoutSecrets = url.replace(QUERY_PARAM_PATTERN, (param, separator: string, name: string) => {
+    const normalized = safeDecode(name).toLowerCase();
+    return keys.has(normalized) || keys.has(normalized.replace(/[_-]/g, ''))
+      ? `${separator}${name}=${REDACTED}`
+      : param;
+  });
+  return redact(withoutSecrets, keys) as string;
+}
+
+/**
+ * Lowercased names to redact: the defaults plus `extra`
+ */
+export function redactionKeys(extra: string[] = []): Set<string> {
+  return new Set([...DEFAULT_LOGGER_CONFIG.redact, ...extra].map((key) => key.toLowerCase()));
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Write a record to the console, e.g. `[FeedbackKit] response GET https://… 200 (12ms)`
+ */
+function consoleSink(record: LogRecord): void {
+  const status = record.status ? ` ${record.status}` : '';
+  const duration = record.duration !== undefined ? ` (${record.duration}ms)` : '';
+  console[record.level](`[FeedbackKit] ${record.event} ${record.method} ${record.url}${status}${duration}`, record);
+}
+
+/**
+ * Level-filtering, redacting logger
+ */
+export class Logger {
+  private level: LogLevel;
+  private sink: LogSink;
+  /** Lowercased field names to redact */
+  readonly keys: ReadonlySet<string>;
+
+  constructor(config: LoggerConfig = {}) {
+    this.level = config.level ?? DEFAULT_LOGGER_CONFIG.level;
+    this.sink = config.sink ?? consoleSink;
+    this.keys = redactionKeys(config.redact);
+  }
+
+  /**
+   * Whether records of a level are logged
+   */
+  enabled(level: LogRecord['level']): boolean {
+    return LEVELS[level] >= LEVELS[this.level];
+  }
+
+  /**
+   * Redact a record and pass it to the sink if its level is enabled
+   */
+  log(record: LogRecord): void {
+    if (!this.enabled(record.level)) {
+      return;
+    }
+
+    const redacted: LogRecord = { ...record, url: redactUrl(record.url, this.keys) };
+    if (record.headers) {
+      redacted.headers = redact(record.headers, this.keys) as Record<string, string>;
+    }
+    if (record.body !== undefined) {
+      redacted.body = redact(record.body, this.keys);
+    }
+    if (record.error) {
+      redacted.error = { ...record.error, message: redact(record.error.message, this.keys) as string };
+    }
+
+    try {
+      this.sink(redacted);
+    } catch {
+      // A failing sink must not fail the request
+    }
+  }
+}
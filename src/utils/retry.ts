@@ -0,0 +1,105 @@
+/**
+ * Retry policy for FeedbackKit API requests
+ */
+
+import { AbortedError } from '../models/errors';
+import { HttpMethod, RetryConfig, DEFAULT_RETRY_CONFIG } from '../models/types';
+
+/**
+ * Retry configuration with all defaults applied
+ */
+export type ResolvedRetryConfig = Required<Omit<RetryConfig, 'onRetry'>> & Pick<RetryConfig, 'onRetry'>;
+
+/**
+ * Merge user retry settings with the defaults
+ *
+ * Returns null when retries are disabled.
+ */
+export function resolveRetryConfig(config?: RetryConfig | false): ResolvedRetryConfig | null {
+  if (config === false) {
+    return null;
+  }
+
+  const resolved: ResolvedRetryConfig = {
+    maxAttempts: config?.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts,
+    baseDelay: config?.baseDelay ?? DEFAULT_RETRY_CONFIG.baseDelay,
+    maxDelay: config?.maxDelay ?? DEFAULT_RETRY_CONFIG.maxDelay,
+    jitter: config?.jitter ?? DEFAULT_RETRY_CONFIG.jitter,
+    retryStatusCodes: config?.retryStatusCodes ?? [...DEFAULT_RETRY_CONFIG.retryStatusCodes],
+    retryMethods: config?.retryMethods ?? [...DEFAULT_RETRY_CONFIG.retryMethods],
+    onRetry: config?.onRetry
+  };
+
+  return resolved.maxAttempts > 1 ? resolved : null;
+}
+
+/**
+ * Whether a request may be retried at all
+ *
+ * Methods outside `retryMethods` (POST by default) are only retried when the
+ * request carries an idempotency key, so a write is never applied twice.
+ */
+export function isRetryableRequest(
+  policy: ResolvedRetryConfig,
+  method: HttpMethod,
+  idempotencyKey?: string
+): boolean {
+  return policy.retryMethods.includes(method) || Boolean(idempotencyKey);
+}
+
+/**
+ * Compute the exponential backoff delay before the given retry
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function computeBackoff(policy: ResolvedRetryConfig, attempt: number): number {
+  const delay = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Parse a `Retry-After` header value into milliseconds
+ *
+ * Supports both delta-seconds and HTTP-date formats.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ *
+ * Rejects with AbortedError as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
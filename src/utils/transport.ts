@@ -0,0 +1,83 @@
+/**
+ * Transport layer for FeedbackKit API requests
+ *
+ * The HTTP client builds requests and interprets responses; a transport only
+ * moves bytes. Swap the transport to use a custom agent, a proxy-aware fetch,
+ * a service worker bridge or recorded fixtures.
+ */
+
+import { HttpMethod } from '../models/types';
+
+/**
+ * A fully built request handed to a transport
+ */
+export interface TransportRequest {
+  /** Absolute request URL including query string */
+  url: string;
+  /** HTTP method */
+  method: HttpMethod;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Serialized JSON body */
+  body?: string;
+  /** Aborted when the request times out */
+  signal?: AbortSignal;
+  /** Let the request outlive the page (fetch `keepalive`) */
+  keepalive?: boolean;
+}
+
+/**
+ * The subset of a fetch `Response` the SDK relies on
+ */
+export interface TransportResponse {
+  /** HTTP status code */
+  status: number;
+  /** Whether the status is in the 2xx range */
+  ok: boolean;
+  /** Response headers */
+  headers: { get(name: string): string | null };
+  /** Parse the body as JSON */
+  json(): Promise<unknown>;
+  /** Read the body as text */
+  text(): Promise<string>;
+}
+
+/**
+ * Sends requests to the FeedbackKit API
+ *
+ * Implementations should reject only for connection-level failures (or with
+ * an `AbortError` when the signal fires) and resolve for every HTTP status.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * A fetch-compatible function
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<TransportResponse>;
+
+/**
+ * Transport backed by a fetch implementation
+ *
+ * Without an explicit implementation the global `fetch` is looked up on every
+ * request, so polyfills installed after the client is created still apply.
+ */
+export class FetchTransport implements Transport {
+  constructor(private fetchImpl?: FetchFunction) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const fetchImpl = this.fetchImpl ?? (globalThis.fetch as FetchFunction | undefined);
+    if (!fetchImpl) {
+      throw new Error('FeedbackKit: fetch is not available; provide a fetch or transport option');
+    }
+
+    return fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+      keepalive: request.keepalive
+    });
+  }
+}
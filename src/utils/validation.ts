@@ -0,0 +1,181 @@
+/**
+ * Request Validation
+ *
+ * Pre-flight checks mirroring the server's rules, so invalid input fails
+ * without a round trip. The validators are exported for use in forms.
+ */
+
+import { ValidationError } from '../models/errors';
+import {
+  CreateFeedbackRequest,
+  CreateCommentRequest,
+  VoteRequest,
+  UnvoteRequest,
+  RegisterUserRequest,
+  AliasUserRequest,
+  FeedbackCategory,
+  FieldError
+} from '../models/types';
+
+/**
+ * Field length limits enforced by the API
+ */
+export const VALIDATION_LIMITS = {
+  titleMaxLength: 200,
+  descriptionMaxLength: 5000,
+  commentMaxLength: 2000
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CATEGORIES: readonly string[] = Object.values(FeedbackCategory).filter(
+  (category) => category !== FeedbackCategory.Unknown
+);
+
+const MAILING_LIST_EMAIL_TYPES: readonly string[] = ['operational', 'marketing'];
+
+/**
+ * Validate a new feedback item
+ *
+ * @returns Field errors, empty when the request is valid
+ *
+ * @example
+ * ```ts
+ * const errors = validateCreateFeedback(formValues);
+ * for (const { field, message } of errors) {
+ *   form.setError(field, message);
+ * }
+ * ```
+ */
+export function validateCreateFeedback(request: CreateFeedbackRequest): FieldError[] {
+  return [
+    ...checkText('title', request.title, VALIDATION_LIMITS.titleMaxLength),
+    ...checkText('description', request.description, VALIDATION_LIMITS.descriptionMaxLength),
+    ...checkCategory('category', request.category),
+    ...checkId('userId', request.userId),
+    ...checkEmail('userEmail', request.userEmail),
+    ...checkEmailTypes('mailingListEmailTypes', request.mailingListEmailTypes)
+  ];
+}
+
+/**
+ * Validate a new comment
+ *
+ * @returns Field errors, empty when the request is valid
+ */
+export function validateCreateComment(feedbackId: string, request: CreateCommentRequest): FieldError[] {
+  return [
+    ...checkId('feedbackId', feedbackId),
+    ...checkText('content', request.content, VALIDATION_LIMITS.commentMaxLength),
+    ...checkId('userId', request.userId)
+  ];
+}
+
+/**
+ * Validate a vote
+ *
+ * @returns Field errors, empty when the request is valid
+ */
+export function validateVote(feedbackId: string, request: VoteRequest | UnvoteRequest): FieldError[] {
+  return [
+    ...checkId('feedbackId', feedbackId),
+    ...checkId('userId', request.userId),
+    ...('email' in request ? checkEmail('email', request.email) : []),
+    ...('mailingListEmailTypes' in request
+      ? checkEmailTypes('mailingListEmailTypes', request.mailingListEmailTypes)
+      : [])
+  ];
+}
+
+/**
+ * Validate a user registration
+ *
+ * @returns Field errors, empty when the request is valid
+ */
+export function validateRegisterUser(request: RegisterUserRequest): FieldError[] {
+  const errors = checkId('userId', request.userId);
+
+  if (request.mrr !== undefined && (!Number.isFinite(request.mrr) || request.mrr < 0)) {
+    errors.push({ field: 'mrr', code: 'invalid_value', message: 'mrr must be a finite, non-negative number' });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an alias of a previous user ID
+ *
+ * @returns Field errors, empty when the request is valid
+ */
+export function validateAlias(request: AliasUserRequest): FieldError[] {
+  const errors = [...checkId('previousId', request.previousId), ...checkId('userId', request.userId)];
+  if (errors.length === 0 && request.previousId === request.userId) {
+    errors.push({ field: 'userId', code: 'invalid_value', message: 'userId must differ from previousId' });
+  }
+  return errors;
+}
+
+/**
+ * Validate a project API key
+ *
+ * @returns Field errors, empty when the key looks valid
+ */
+export function validateApiKey(apiKey: string): FieldError[] {
+  const errors = checkId('apiKey', apiKey);
+  if (errors.length === 0 && !apiKey.startsWith('sf_')) {
+    errors.push({ field: 'apiKey', code: 'invalid_format', message: 'apiKey must start with sf_' });
+  }
+  return errors;
+}
+
+/**
+ * Throw a ValidationError listing all field errors, if there are any
+ */
+export function assertValid(errors: FieldError[]): void {
+  if (errors.length > 0) {
+    throw new ValidationError(errors.map((error) => error.message).join('; '), errors);
+  }
+}
+
+function checkText(field: string, value: string | undefined, maxLength: number): FieldError[] {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return [{ field, code: 'required', message: `${field} is required` }];
+  }
+  if (value.length > maxLength) {
+    return [{ field, code: 'too_long', message: `${field} must be at most ${maxLength} characters` }];
+  }
+  return [];
+}
+
+function checkId(field: string, value: string | undefined): FieldError[] {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return [{ field, code: 'required', message: `${field} is required` }];
+  }
+  return [];
+}
+
+function checkEmail(field: string, value: string | undefined): FieldError[] {
+  if (value !== undefined && !EMAIL_PATTERN.test(value)) {
+    return [{ field, code: 'invalid_format', message: `${field} must be a valid email address` }];
+  }
+  return [];
+}
+
+function checkCategory(field: string, value: string | undefined): FieldError[] {
+  if (value === undefined || !CATEGORIES.includes(value)) {
+    return [{ field, code: 'invalid_value', message: `${field} must be one of ${CATEGORIES.join(', ')}` }];
+  }
+  return [];
+}
+
+function checkEmailTypes(field: string, value: string[] | undefined): FieldError[] {
+  const unknown = value?.filter((type) => !MAILING_LIST_EMAIL_TYPES.includes(type)) ?? [];
+  if (unknown.length > 0) {
+    return [{
+      field,
+      code: 'invalid_value',
+      message: `${field} must only contain ${MAILING_LIST_EMAIL_TYPES.join(', ')}`
+    }];
+  }
+  return [];
+}
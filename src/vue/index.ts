@@ -0,0 +1,262 @@
+/**
+ * FeedbackKit Vue bindings
+ *
+ * Import from `feedbackkit-js/vue`; requires Vue 3.3 or later.
+ */
+
+import {
+  App,
+  ComputedRef,
+  InjectionKey,
+  MaybeRefOrGetter,
+  Ref,
+  computed,
+  hasInjectionContext,
+  inject,
+  onScopeDispose,
+  readonly,
+  ref,
+  shallowRef,
+  toValue,
+  watchEffect
+} from 'vue';
+import type { FeedbackKit } from '../client';
+import { FeedbackKitError, toFeedbackKitError } from '../models/errors';
+import { QueryKind, queryCacheFor } from '../store/query-cache';
+import {
+  Comment,
+  CreateFeedbackRequest,
+  EventBufferOption,
+  Feedback,
+  ListFeedbackOptions,
+  VoteResponse
+} from '../models/types';
+
+/**
+ * Injection key of the client
+ */
+export const feedbackKitKey: InjectionKey<FeedbackKit<false, EventBufferOption>> = Symbol('feedbackkit');
+
+/**
+ * Plugin options
+ */
+export interface FeedbackKitPluginOptions {
+  /** Client used by all composables in the app */
+  client: FeedbackKit<false, EventBufferOption>;
+}
+
+/**
+ * Install a client for the FeedbackKit composables
+ *
+ * @example
+ * ```ts
+ * const feedbackKit = new FeedbackKit({ apiKey: 'sf_your_api_key', userId: 'user_12345' });
+ *
+ * createApp(App).use(FeedbackKitPlugin, { client: feedbackKit }).mount('#app');
+ * ```
+ */
+export const FeedbackKitPlugin = {
+  install(app: App, options: FeedbackKitPluginOptions): void {
+    app.provide(feedbackKitKey, options.client);
+  }
+};
+
+/**
+ * The client installed by `FeedbackKitPlugin`
+ */
+export function useFeedbackKit(): FeedbackKit<false, EventBufferOption> {
+  const client = hasInjectionContext() ? inject(feedbackKitKey, null) : null;
+  if (!client) {
+    throw new Error('FeedbackKit: install FeedbackKitPlugin before using the composables');
+  }
+  return client;
+}
+
+/**
+ * The client's current user ID; updates after `setUserId`
+ */
+export function useUserId(): Readonly<Ref<string | undefined>> {
+  const client = useFeedbackKit();
+  const userId = ref(client.getUserId());
+  onScopeDispose(client.onUserIdChange((value) => {
+    userId.value = value;
+  }));
+  return readonly(userId);
+}
+
+/**
+ * Result of a query composable
+ */
+export interface QueryResult<T> {
+  /** Loaded data; the previous data is kept while reloading */
+  data: ComputedRef<T | undefined>;
+  /** Error of the last load */
+  error: ComputedRef<FeedbackKitError | null>;
+  /** Whether a load is in flight */
+  loading: ComputedRef<boolean>;
+  /** Reload the data */
+  refetch: () => void;
+}
+
+/**
+ * List feedback
+ *
+ * Reloads when the (reactive) options or the current user change.
+ *
+ * @example
+ * ```ts
+ * const filters = reactive<ListFeedbackOptions>({ status: FeedbackStatus.Approved });
+ * const { data, loading, error } = useFeedbackList(filters);
+ *
+ * filters.status = FeedbackStatus.InProgress; // reloads
+ * ```
+ */
+export function useFeedbackList(options: MaybeRefOrGetter<ListFeedbackOptions> = {}): QueryResult<Feedback[]> {
+  const client = useFeedbackKit();
+  return useQuery('list', () => {
+    const value = { ...toValue(options) };
+    return { key: `list:${JSON.stringify(value)}`, load: () => client.feedback.list(value) };
+  });
+}
+
+/**
+ * Get a single feedback item
+ */
+export function useFeedback(feedbackId: MaybeRefOrGetter<string>): QueryResult<Feedback> {
+  const client = useFeedbackKit();
+  return useQuery('feedback', () => {
+    const id = toValue(feedbackId);
+    return { key: `feedback:${id}`, load: () => client.feedback.get(id) };
+  });
+}
+
+/**
+ * List the comments of a feedback item
+ */
+export function useComments(feedbackId: MaybeRefOrGetter<string>): QueryResult<Comment[]> {
+  const client = useFeedbackKit();
+  return useQuery('comments', () => {
+    const id = toValue(feedbackId);
+    return { key: `comments:${id}`, load: () => client.comments.list(id) };
+  });
+}
+
+/**
+ * Result of `useVote`
+ */
+export interface VoteResult {
+  /** Vote as the current user */
+  vote: () => Promise<VoteResponse>;
+  /** Remove the current user's vote */
+  unvote: () => Promise<VoteResponse>;
+  /** Whether a vote or unvote is in flight */
+  pending: ComputedRef<boolean>;
+  /** Error of the last vote or unvote */
+  error: Readonly<Ref<FeedbackKitError | null>>;
+}
+
+/**
+ * Vote and unvote as the current user
+ *
+ * Successful votes update `voteCount` and `hasVoted` in every composable
+ * showing the feedback item.
+ */
+export function useVote(feedbackId: MaybeRefOrGetter<string>): VoteResult {
+  const client = useFeedbackKit();
+  const { run, pending, error } = useMutation(async (action: 'vote' | 'unvote') => {
+    const id = toValue(feedbackId);
+    const result = action === 'vote'
+      ? await client.votes.vote(id)
+      : await client.votes.unvote(id);
+    queryCacheFor(client).updateFeedback(id, { voteCount: result.voteCount, hasVoted: result.hasVoted });
+    return result;
+  });
+
+  return { vote: () => run('vote'), unvote: () => run('unvote'), pending, error };
+}
+
+/**
+ * Feedback to submit; `userId` and `userEmail` default to the identified user
+ */
+export type SubmitFeedbackRequest = CreateFeedbackRequest;
+
+/**
+ * Result of `useSubmitFeedback`
+ */
+export interface SubmitFeedbackResult {
+  /** Create a feedback item; feedback lists reload afterwards */
+  submit: (request: SubmitFeedbackRequest) => Promise<Feedback>;
+  /** Whether a submission is in flight */
+  pending: ComputedRef<boolean>;
+  /** Error of the last submission, e.g. a `ValidationError` with `fields` */
+  error: Readonly<Ref<FeedbackKitError | null>>;
+}
+
+/**
+ * Submit new feedback
+ */
+export function useSubmitFeedback(): SubmitFeedbackResult {
+  const client = useFeedbackKit();
+  const { run, pending, error } = useMutation(async (request: SubmitFeedbackRequest) => {
+    const feedback = await client.feedback.create(request);
+    queryCacheFor(client).invalidate('list');
+    return feedback;
+  });
+
+  return { submit: run, pending, error };
+}
+
+function useQuery<T>(kind: QueryKind, source: () => { key: string; load: () => Promise<T> }): QueryResult<T> {
+  const client = useFeedbackKit();
+  const userId = useUserId();
+  const cache = queryCacheFor(client);
+  const version = shallowRef(cache.getVersion());
+  onScopeDispose(cache.subscribe(() => {
+    version.value = cache.getVersion();
+  }));
+
+  const query = computed(() => {
+    const { key, load } = source();
+    // Responses depend on the user (`hasVoted`), so each user gets its own entry
+    return { key: `${userId.value ?? ''}|${key}`, load };
+  });
+  const entry = computed(() => {
+    void version.value;
+    return cache.get<T>(query.value.key);
+  });
+  // Load eagerly, outside of the computed, and keep the entry while in scope
+  watchEffect((onCleanup) => {
+    const { key, load } = query.value;
+    onCleanup(cache.observe(key));
+    cache.ensure(key, kind, load);
+  });
+
+  return {
+    data: computed(() => entry.value?.data),
+    error: computed(() => entry.value?.error ?? null),
+    loading: computed(() => !entry.value || entry.value.status === 'pending'),
+    refetch: () => {
+      cache.fetch(query.value.key, kind, query.value.load);
+    }
+  };
+}
+
+function useMutation<A, R>(action: (arg: A) => Promise<R>) {
+  const inFlight = ref(0);
+  const error = shallowRef<FeedbackKitError | null>(null);
+
+  const run = async (arg: A): Promise<R> => {
+    inFlight.value++;
+    error.value = null;
+    try {
+      return await action(arg);
+    } catch (caught) {
+      error.value = toFeedbackKitError(caught);
+      throw caught;
+    } finally {
+      inFlight.value--;
+    }
+  };
+
+  return { run, pending: computed(() => inFlight.value > 0), error: readonly(error) };
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackKitConfig,
+  MemoryStorage,
+  CookieStorage,
+  NotFoundError,
+  StorageAdapter,
+  ValidationError
+} from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+describe('anonymous ID', () => {
+  let server: FakeFeedbackKitServer;
+  let storage: MemoryStorage;
+
+  const createClient = (config: Partial<FeedbackKitConfig> = {}) =>
+    new FeedbackKit({
+      apiKey: 'sf_test_key',
+      fetch: server.fetch,
+      retry: false,
+      anonymousId: { storage },
+      ...config
+    });
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer({ aliases: true });
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode' });
+    server.seedFeedback({ id: 'fb_2', title: 'Sync' });
+    storage = new MemoryStorage();
+  });
+
+  it('should generate and persist an ID used for requests', async () => {
+    const client = createClient();
+    const anonymousId = client.getUserId();
+
+    expect(anonymousId).toMatch(/^anon_/);
+    await client.votes.vote('fb_1');
+    await client.comments.create('fb_1', { content: 'Yes please' });
+
+    expect(server.getVoters('fb_1')).toEqual([anonymousId]);
+    expect(server.getComments('fb_1')[0].userId).toBe(anonymousId);
+    expect((await client.feedback.get('fb_1')).hasVoted).toBe(true);
+    await Promise.resolve();
+    expect(storage.getItem('feedbackkit:anonymous-id')).toBe(anonymousId);
+    expect(createClient().getUserId()).toBe(anonymousId);
+  });
+
+  it('should not be used without the option', () => {
+    expect(createClient({ anonymousId: undefined }).getUserId()).toBeUndefined();
+  });
+
+  it('should alias the anonymous ID on identify', async () => {
+    const client = createClient({ anonymousId: { storage, aliasOnIdentify: true } });
+    const anonymousId = client.getUserId() as string;
+    server.seedUser({ userId: anonymousId });
+    server.seedFeedback({ id: 'fb_3', title: 'Export', voters: ['user_1'] });
+    await client.votes.vote('fb_1');
+    await client.votes.vote('fb_3');
+    await client.comments.create('fb_2', { content: 'Me too' });
+
+    await client.identify('user_1');
+
+    expect(server.callsTo('POST', '/users/alias')[0].body).toEqual({ previousId: anonymousId, userId: 'user_1' });
+    expect(server.getVoters('fb_1')).toEqual(['user_1']);
+    expect(server.getFeedback('fb_3')?.voteCount).toBe(1);
+    expect(server.getComments('fb_2')[0].userId).toBe('user_1');
+    expect(server.getUser(anonymousId)).toBeUndefined();
+    expect(server.getUser('user_1')).toBeDefined();
+
+    // A later visit with the same anonymous ID doesn't alias again
+    await createClient({ anonymousId: { storage, aliasOnIdentify: true } }).identify('user_1');
+    expect(server.callsTo('POST', '/users/alias')).toHaveLength(1);
+  });
+
+  it('should not alias when disabled', async () => {
+    const client = createClient({ anonymousId: { storage, aliasOnIdentify: false } });
+
+    await client.identify('user_1');
+
+    expect(server.callsTo('POST', '/users/alias')).toEqual([]);
+  });
+
+  it('should not alias by default', async () => {
+    server.configure({ aliases: false });
+    const client = createClient();
+
+    await expect(client.identify('user_1')).resolves.toMatchObject({ userId: 'user_1' });
+    await expect(client.users.alias({ previousId: 'anon_1' })).rejects.toThrow(NotFoundError);
+    expect(server.callsTo('POST', '/users/alias')).toHaveLength(1);
+  });
+
+  it('should switch to a new anonymous ID on reset', async () => {
+    const client = createClient();
+    const anonymousId = client.getUserId();
+    const changes: Array<string | undefined> = [];
+    client.onUserIdChange((userId) => changes.push(userId));
+
+    await client.identify('user_1');
+    client.reset();
+
+    const next = client.getUserId();
+    expect(next).toMatch(/^anon_/);
+    expect(next).not.toBe(anonymousId);
+    expect(changes).toEqual(['user_1', next]);
+    expect(await client.getAnonymousId()).toBe(next);
+  });
+
+  it('should wait for asynchronous storage', async () => {
+    const values = new Map([['feedbackkit:anonymous-id', 'anon_stored']]);
+    const asyncStorage: StorageAdapter = {
+      getItem: async (key) => values.get(key) ?? null,
+      setItem: async (key, value) => {
+        values.set(key, value);
+      },
+      removeItem: async (key) => {
+        values.delete(key);
+      }
+    };
+    const client = createClient({ anonymousId: { storage: asyncStorage, aliasOnIdentify: true } });
+
+    expect(client.getUserId()).toBeUndefined();
+    expect(await client.getAnonymousId()).toBe('anon_stored');
+    expect(client.getUserId()).toBe('anon_stored');
+
+    await client.identify('user_1');
+    expect(server.callsTo('POST', '/users/alias')[0].body).toMatchObject({ previousId: 'anon_stored' });
+  });
+
+  it('should keep the anonymous ID and retry when aliasing fails', async () => {
+    const fetch = vi.fn(server.fetch).mockRejectedValueOnce(new TypeError('fetch failed'));
+    const client = createClient({ fetch, anonymousId: { storage, aliasOnIdentify: true } });
+    const anonymousId = client.getUserId();
+
+    await expect(client.identify('user_1')).rejects.toThrow('fetch failed');
+    expect(client.getUserId()).toBe(anonymousId);
+
+    await client.identify('user_1');
+    expect(client.getUserId()).toBe('user_1');
+    expect(server.callsTo('POST', '/users/alias')[0].body).toEqual({ previousId: anonymousId, userId: 'user_1' });
+  });
+
+  it('should keep a rotated ID over one still loading', async () => {
+    let resolve!: (value: string) => void;
+    const asyncStorage: StorageAdapter = {
+      getItem: () => new Promise((r) => { resolve = r; }),
+      setItem: async () => undefined,
+      removeItem: async () => undefined
+    };
+    const client = createClient({ anonymousId: { storage: asyncStorage } });
+
+    client.reset();
+    const rotated = client.getUserId();
+    resolve('anon_stored');
+
+    await new Promise((r) => setTimeout(r, 0));
+    expect(client.getUserId()).toBe(rotated);
+    expect(await client.getAnonymousId()).toBe(rotated);
+  });
+
+  it('should validate aliases without a request', async () => {
+    const client = createClient({ anonymousId: undefined, userId: 'user_1' });
+
+    await expect(client.users.alias({ previousId: 'user_1' })).rejects.toThrow(ValidationError);
+    await expect(client.users.alias({ previousId: '' })).rejects.toThrow(ValidationError);
+    expect(server.callsTo('POST', '/users/alias')).toEqual([]);
+  });
+});
+
+describe('CookieStorage', () => {
+  const globals = globalThis as { document?: { cookie: string } };
+  let written: string[];
+  let jar: Map<string, string>;
+
+  beforeEach(() => {
+    written = [];
+    jar = new Map();
+    globals.document = {
+      get cookie() {
+        return [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+      },
+      set cookie(cookie: string) {
+        written.push(cookie);
+        const [pair] = cookie.split('; ');
+        const [name, value] = pair.split('=');
+        if (cookie.includes('Max-Age=0')) {
+          jar.delete(name);
+        } else {
+          jar.set(name, value);
+        }
+      }
+    };
+  });
+
+  afterEach(() => {
+    delete globals.document;
+  });
+
+  it('should read, write and remove cookies', () => {
+    const cookies = new CookieStorage({ prefix: 'fk_', domain: '.example.com', sameSite: 'None' });
+
+    cookies.setItem('id', 'anon 1=2');
+    expect(cookies.getItem('id')).toBe('anon 1=2');
+    expect(written[0]).toBe('fk_id=anon%201%3D2; Max-Age=31536000; Path=/; SameSite=None; Domain=.example.com; Secure');
+
+    cookies.removeItem('id');
+    expect(cookies.getItem('id')).toBeNull();
+  });
+
+  it('should fall back to memory without a document', () => {
+    delete globals.document;
+    const cookies = new CookieStorage();
+
+    cookies.setItem('id', 'anon_1');
+    expect(cookies.getItem('id')).toBe('anon_1');
+  });
+});
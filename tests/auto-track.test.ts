@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FeedbackKit, FeedbackKitConfig, FeedbackStatus, SDKEvents, TrackEventRequest } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import { AutoTracker } from '../src/events/auto-tracker';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('autoTrack', () => {
+  let server: FakeFeedbackKitServer;
+
+  const createClient = (config: Partial<FeedbackKitConfig> = {}) =>
+    new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_1', fetch: server.fetch, autoTrack: true, ...config });
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', status: FeedbackStatus.Approved });
+  });
+
+  it('should track list and detail views with their filters', async () => {
+    const client = createClient();
+
+    await client.feedback.list({ status: FeedbackStatus.Approved });
+    await client.feedback.get('fb_1');
+    client.events.trackView(SDKEvents.SubmitFeedback, { source: 'menu' });
+    await flush();
+
+    expect(server.getEvents()).toMatchObject([
+      { eventName: 'feedback_list', userId: 'user_1', properties: { status: 'approved' } },
+      { eventName: 'feedback_detail', userId: 'user_1', properties: { feedbackId: 'fb_1', status: 'approved' } },
+      { eventName: 'submit_feedback', userId: 'user_1', properties: { source: 'menu' } }
+    ]);
+  });
+
+  it('should not track bulk reads, later pages or anonymous views', async () => {
+    const client = createClient();
+
+    for await (const item of client.feedback.iterate()) {
+      expect(item.id).toBe('fb_1');
+    }
+    await client.feedback.listPage({ cursor: '1' });
+    client.setUserId(undefined);
+    await client.feedback.list();
+    await flush();
+
+    expect(server.getEvents()).toEqual([]);
+  });
+
+  it('should skip opted-out events and apply the enrich hook', async () => {
+    const client = createClient({
+      autoTrack: {
+        events: { feedback_detail: false },
+        enrich: (event) => event.eventName === SDKEvents.SubmitFeedback
+          ? null
+          : { ...event, properties: { ...event.properties, screen: 'roadmap' } }
+      }
+    });
+
+    await client.feedback.list();
+    await client.feedback.get('fb_1');
+    client.events.trackView(SDKEvents.SubmitFeedback);
+    await flush();
+
+    expect(server.getEvents()).toMatchObject([{ eventName: 'feedback_list', properties: { screen: 'roadmap' } }]);
+  });
+
+  it('should do nothing when disabled', async () => {
+    const client = createClient({ autoTrack: undefined });
+
+    await client.feedback.list();
+    client.events.trackView(SDKEvents.SubmitFeedback);
+    await flush();
+
+    expect(server.getEvents()).toEqual([]);
+  });
+
+  it('should sample events', () => {
+    const sent: TrackEventRequest[] = [];
+    const samples = [0.1, 0.6, 0.2];
+    const tracker = new AutoTracker(
+      { sampleRate: 0.5 },
+      async (event) => sent.push(event),
+      () => 'user_1',
+      () => samples.shift() as number
+    );
+
+    tracker.record('feedback_list', { page: 1 });
+    tracker.record('feedback_list', { page: 2 });
+    tracker.record('feedback_list', { page: 3 });
+
+    expect(sent.map((event) => event.properties?.page)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,168 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FeedbackKit, Feedback, FeedbackStatus, VoteResponse } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import { defineFeedbackKitBoard, FeedbackKitBoardElement } from '../src/board';
+
+describe('<feedbackkit-board>', () => {
+  let server: FakeFeedbackKitServer;
+
+  const mount = async (fetch: typeof server.fetch = server.fetch) => {
+    defineFeedbackKitBoard();
+    const board = document.createElement('feedbackkit-board') as FeedbackKitBoardElement;
+    board.client = new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_1', fetch, retry: false });
+    document.body.appendChild(board);
+    await vi.waitFor(() => expect(board.shadowRoot?.querySelector('ul, p.muted:not(:empty)')).not.toBeNull());
+    await vi.waitFor(() => expect(board.shadowRoot?.querySelector('.board')?.getAttribute('aria-busy')).toBe('false'));
+    return board;
+  };
+
+  const query = <T extends HTMLElement = HTMLElement>(board: FeedbackKitBoardElement, selector: string) => {
+    const element = board.shadowRoot?.querySelector<T>(selector);
+    if (!element) {
+      throw new Error(`No element matches ${selector}`);
+    }
+    return element;
+  };
+
+  const titles = (board: FeedbackKitBoardElement) =>
+    Array.from(board.shadowRoot?.querySelectorAll('[data-action="open"]') ?? []).map((element) => element.textContent);
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', status: FeedbackStatus.Approved, voteCount: 3 });
+    server.seedFeedback({ id: 'fb_2', title: 'Widgets', status: FeedbackStatus.Pending, voteCount: 1 });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should list feedback', async () => {
+    const board = await mount();
+
+    expect(titles(board)).toEqual(['Dark mode', 'Widgets']);
+    expect(query(board, '[data-action="vote"][data-id="fb_1"]').textContent).toBe('▲ 3');
+    expect(query(board, '[role="status"]').textContent).toBe('2 feedback items');
+  });
+
+  it('should filter by status and keep the filter focused', async () => {
+    const board = await mount();
+    const select = query<HTMLSelectElement>(board, '[data-filter="status"]');
+
+    select.focus();
+    select.value = 'pending';
+    select.dispatchEvent(new Event('change', { bubbles: true }));
+
+    await vi.waitFor(() => expect(titles(board)).toEqual(['Widgets']));
+    expect(server.callsTo('GET', '/feedbacks').at(-1)?.query.status).toEqual(['pending']);
+    expect(board.shadowRoot?.activeElement?.getAttribute('data-filter')).toBe('status');
+  });
+
+  it('should drop superseded refreshes', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    const fetch: typeof server.fetch = async (input, init) => {
+      if (String(input).includes('status=pending')) {
+        await gate;
+      }
+      return server.fetch(input, init);
+    };
+    const board = await mount(fetch);
+    const filter = (status: string) => {
+      const select = query<HTMLSelectElement>(board, '[data-filter="status"]');
+      select.value = status;
+      select.dispatchEvent(new Event('change', { bubbles: true }));
+    };
+
+    filter('pending');
+    filter('approved');
+    await vi.waitFor(() => expect(titles(board)).toEqual(['Dark mode']));
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(titles(board)).toEqual(['Dark mode']);
+  });
+
+  it('should vote optimistically and keep the button focused', async () => {
+    const board = await mount();
+    const votes: VoteResponse[] = [];
+    board.addEventListener('feedbackkit-vote', (event) => votes.push((event as CustomEvent<VoteResponse>).detail));
+    const button = query(board, '[data-action="vote"][data-id="fb_1"]');
+
+    button.focus();
+    button.click();
+
+    const pending = query(board, '[data-action="vote"][data-id="fb_1"]');
+    expect(pending.textContent).toBe('▲ 4');
+    expect(pending.getAttribute('aria-pressed')).toBe('true');
+    expect(pending.getAttribute('aria-disabled')).toBe('true');
+
+    await vi.waitFor(() => expect(votes).toHaveLength(1));
+    expect(votes[0]).toMatchObject({ feedbackId: 'fb_1', voteCount: 4, hasVoted: true });
+    expect(server.getVoters('fb_1')).toEqual(['user_1']);
+    expect(board.shadowRoot?.activeElement?.getAttribute('data-id')).toBe('fb_1');
+    expect(query(board, '[data-action="vote"][data-id="fb_1"]').hasAttribute('aria-disabled')).toBe(false);
+  });
+
+  it('should roll back a failed vote', async () => {
+    const board = await mount();
+    const votes = vi.fn();
+    board.addEventListener('feedbackkit-vote', votes);
+    server.configure({ archived: true });
+
+    query(board, '[data-action="vote"][data-id="fb_1"]').click();
+    expect(query(board, '[data-action="vote"][data-id="fb_1"]').textContent).toBe('▲ 4');
+
+    await vi.waitFor(() => expect(query(board, '[data-action="vote"][data-id="fb_1"]').textContent).toBe('▲ 3'));
+    expect(query(board, '[data-action="vote"][data-id="fb_1"]').getAttribute('aria-pressed')).toBe('false');
+    expect(query(board, '[role="status"]').textContent).not.toBe('');
+    expect(votes).not.toHaveBeenCalled();
+  });
+
+  it('should show field errors and submit feedback', async () => {
+    const board = await mount();
+    const submitted = vi.fn();
+    board.addEventListener('feedbackkit-submit', (event) => submitted((event as CustomEvent<Feedback>).detail));
+
+    query(board, '[data-action="new"]').click();
+    expect(board.shadowRoot?.activeElement?.tagName).toBe('H2');
+
+    query<HTMLFormElement>(board, 'form').requestSubmit();
+    await vi.waitFor(() => expect(query(board, '[name="title"]').getAttribute('aria-invalid')).toBe('true'));
+    expect(query(board, '#error-title').textContent).not.toBe('');
+    expect(server.callsTo('POST', '/feedbacks')).toHaveLength(0);
+    expect(submitted).not.toHaveBeenCalled();
+
+    query<HTMLInputElement>(board, '[name="title"]').value = 'Offline mode';
+    query<HTMLTextAreaElement>(board, '[name="description"]').value = 'Work without a connection';
+    query<HTMLFormElement>(board, 'form').requestSubmit();
+
+    await vi.waitFor(() => expect(titles(board)).toContain('Offline mode'));
+    expect(submitted).toHaveBeenCalledWith(expect.objectContaining({ title: 'Offline mode', userId: 'user_1' }));
+  });
+
+  it('should show an invalid api-key as an error', async () => {
+    defineFeedbackKitBoard();
+    const board = document.createElement('feedbackkit-board') as FeedbackKitBoardElement;
+    board.setAttribute('api-key', 'pk_live_123');
+    document.body.appendChild(board);
+
+    await vi.waitFor(() => expect(query(board, '[role="alert"]').textContent).toContain('sf_'));
+    expect(board.client).toBeNull();
+    expect(query(board, '[data-action="new"]').hasAttribute('disabled')).toBe(true);
+  });
+
+  it('should escape HTML from the server', async () => {
+    const feedback = server.seedFeedback({ title: '<img src=x onerror="alert(1)">', description: '<script>alert(2)</script>' });
+    server.seedComment(feedback.id, { content: '<b>bold</b>' });
+    const board = await mount();
+
+    expect(titles(board)).toContain('<img src=x onerror="alert(1)">');
+    query(board, `[data-action="open"][data-id="${feedback.id}"]`).click();
+    await vi.waitFor(() => expect(board.shadowRoot?.textContent).toContain('<b>bold</b>'));
+
+    expect(board.shadowRoot?.textContent).toContain('<script>alert(2)</script>');
+    expect(board.shadowRoot?.querySelector('img, script, b')).toBeNull();
+  });
+});
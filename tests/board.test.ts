@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest';
+import { defineFeedbackKitBoard } from '../src/board';
+
+describe('defineFeedbackKitBoard', () => {
+  it('should do nothing without a DOM', () => {
+    expect(typeof HTMLElement).toBe('undefined');
+    expect(defineFeedbackKitBoard()).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createRequire } from 'module';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { build } from 'tsup';
+import { createElement } from 'react';
+import { createApp, effectScope } from 'vue';
+import TestRenderer, { act } from 'react-test-renderer';
+
+// Built under node_modules so the bundles resolve react and vue from the repo
+const outDir = resolve(__dirname, '../node_modules/.cache/feedbackkit-bundle-test');
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Module = any;
+
+function load(entry: string): Promise<Module> {
+  return import(pathToFileURL(resolve(outDir, `${entry}.mjs`)).href);
+}
+
+describe('Built entry points', () => {
+  let sdk: Module;
+  let testing: Module;
+
+  beforeAll(async () => {
+    await build({ outDir, dts: false, sourcemap: false, silent: true });
+    sdk = await load('index');
+    testing = await load('testing');
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  }, 60_000);
+
+  function createClient(): Module {
+    const server = new testing.FakeFeedbackKitServer();
+    return new sdk.FeedbackKit({ apiKey: 'sf_test_key', fetch: server.fetch, retry: false });
+  }
+
+  it('should share error classes between entry points', async () => {
+    const react = await load('react');
+    const client = createClient();
+
+    let result: Module;
+    const Probe = () => {
+      result = react.useFeedback('missing');
+      return null;
+    };
+    await act(async () => {
+      TestRenderer.create(createElement(react.FeedbackKitProvider, { client }, createElement(Probe)));
+    });
+
+    expect(result.error).toBeInstanceOf(sdk.NotFoundError);
+    expect(result.error.code).toBe('NOT_FOUND');
+  });
+
+  it('should keep typed errors from the CommonJS build', async () => {
+    const react = await load('react');
+    const cjs = createRequire(__filename)(resolve(outDir, 'index.js'));
+    const client = new cjs.FeedbackKit({
+      apiKey: 'sf_test_key',
+      fetch: new testing.FakeFeedbackKitServer().fetch,
+      retry: false
+    });
+
+    let result: Module;
+    const Probe = () => {
+      result = react.useFeedback('missing');
+      return null;
+    };
+    await act(async () => {
+      TestRenderer.create(createElement(react.FeedbackKitProvider, { client }, createElement(Probe)));
+    });
+
+    expect(result.error).toBeInstanceOf(cjs.NotFoundError);
+    expect(result.error).toMatchObject({ name: 'NotFoundError', code: 'NOT_FOUND', statusCode: 404 });
+  });
+
+  it('should keep typed errors in Vue composables', async () => {
+    const vue = await load('vue');
+    const app = createApp({}).use(vue.FeedbackKitPlugin, { client: createClient() });
+    const scope = effectScope();
+
+    const { error } = app.runWithContext(() => scope.run(() => vue.useFeedback('missing')));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    scope.stop();
+
+    expect(error.value).toBeInstanceOf(sdk.NotFoundError);
+    expect(error.value.code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FeedbackKit } from '../src';
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+const feedback = (overrides: Record<string, unknown> = {}) => ({
+  id: 'fb_1',
+  title: 'Dark mode',
+  voteCount: 1,
+  hasVoted: false,
+  commentCount: 0,
+  ...overrides
+});
+
+function createClient(userId?: string) {
+  const fetch = vi.fn();
+  const client = new FeedbackKit({
+    apiKey: 'sf_test_key',
+    userId,
+    fetch,
+    cache: { ttl: 1000, staleWhileRevalidate: 1000 }
+  });
+  return { client, fetch };
+}
+
+describe('response cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve fresh responses from the cache', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockResolvedValue(jsonResponse([feedback()]));
+
+    await client.feedback.list();
+    await client.feedback.list();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key entries by options and user', async () => {
+    const { client, fetch } = createClient('user_1');
+    fetch.mockImplementation(() => Promise.resolve(jsonResponse([feedback()])));
+
+    await client.feedback.list();
+    await client.feedback.list({ includeMerged: true });
+    client.setUserId('user_2');
+    await client.feedback.list();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should serve stale responses while revalidating', async () => {
+    vi.useFakeTimers();
+    const { client, fetch } = createClient();
+    fetch
+      .mockResolvedValueOnce(jsonResponse(feedback({ voteCount: 1 })))
+      .mockResolvedValueOnce(jsonResponse(feedback({ voteCount: 7 })));
+
+    await client.feedback.get('fb_1');
+    vi.advanceTimersByTime(1500);
+
+    await expect(client.feedback.get('fb_1')).resolves.toMatchObject({ voteCount: 1 });
+    await vi.waitFor(async () => expect(await client.feedback.get('fb_1')).toMatchObject({ voteCount: 7 }));
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(2500);
+    fetch.mockResolvedValueOnce(jsonResponse(feedback({ voteCount: 9 })));
+    await expect(client.feedback.get('fb_1')).resolves.toMatchObject({ voteCount: 9 });
+  });
+
+  it('should patch cached feedback after votes and comments', async () => {
+    const { client, fetch } = createClient('user_1');
+    fetch.mockResolvedValueOnce(jsonResponse([feedback()]));
+    await client.feedback.list();
+
+    fetch.mockResolvedValueOnce(jsonResponse({ feedbackId: 'fb_1', voteCount: 2, hasVoted: true }));
+    await client.votes.vote('fb_1', { userId: 'user_1' });
+    fetch.mockResolvedValueOnce(jsonResponse({ id: 'c_1', content: 'Nice', userId: 'user_1', isAdmin: false }));
+    await client.comments.create('fb_1', { content: 'Nice', userId: 'user_1' });
+
+    const [cached] = await client.feedback.list();
+    expect(cached).toMatchObject({ voteCount: 2, hasVoted: true, commentCount: 1 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only patch hasVoted for the voting user', async () => {
+    const { client, fetch } = createClient('user_2');
+    fetch.mockImplementation(() => Promise.resolve(jsonResponse(feedback())));
+    await client.feedback.get('fb_1');
+
+    fetch.mockResolvedValueOnce(jsonResponse({ feedbackId: 'fb_1', voteCount: 2, hasVoted: true }));
+    await client.votes.vote('fb_1', { userId: 'user_1' });
+
+    await expect(client.feedback.get('fb_1')).resolves.toMatchObject({ voteCount: 2, hasVoted: false });
+  });
+
+  it('should refetch after invalidate', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockImplementation(() => Promise.resolve(jsonResponse(feedback())));
+
+    await client.feedback.get('fb_1');
+    client.cache?.invalidate('/feedbacks');
+    await client.feedback.get('fb_1');
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
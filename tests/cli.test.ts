@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FeedbackStatus } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import { run, EXIT_CODES, CliIO } from '../src/cli/run';
+import { parseArgs } from '../src/cli/args';
+
+describe('parseArgs', () => {
+  it('should parse commands, positionals and flags', () => {
+    expect(parseArgs(['comment', 'fb_1', 'Looks', 'good', '-u', 'user_1', '--admin', '--status=a,b'])).toEqual({
+      command: 'comment',
+      positionals: ['fb_1', 'Looks', 'good'],
+      flags: { user: ['user_1'], admin: ['true'], status: ['a,b'] }
+    });
+  });
+});
+
+describe('cli', () => {
+  let server: FakeFeedbackKitServer;
+  let stdout: string[];
+  let stderr: string[];
+  let files: Record<string, string>;
+
+  const cli = (...argv: string[]) => {
+    const io: CliIO = {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      env: { HOME: '/home/pm', FEEDBACKKIT_API_KEY: 'sf_env_key' },
+      readFile: async (path) => files[path],
+      fetch: server.fetch
+    };
+    return run(argv, io);
+  };
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    stdout = [];
+    stderr = [];
+    files = {};
+  });
+
+  it('should list feedback as a table', async () => {
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', status: FeedbackStatus.Pending, voteCount: 4 });
+    server.seedFeedback({ id: 'fb_2', title: 'Export', status: FeedbackStatus.Approved });
+
+    expect(await cli('list', '--status', 'pending')).toBe(EXIT_CODES.success);
+
+    const [header, row, ...rest] = stdout[0].split('\n');
+    expect(header).toMatch(/^ID\s+STATUS\s+CATEGORY\s+VOTES\s+COMMENTS\s+TITLE$/);
+    expect(row).toMatch(/^fb_1\s+pending\s+other\s+4\s+0\s+Dark mode$/);
+    expect(rest).toEqual([]);
+    expect(server.calls[0].query).toEqual({ status: ['pending'] });
+  });
+
+  it('should print JSON and send the configured user', async () => {
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', voters: ['user_1'] });
+
+    await cli('get', 'fb_1', '--json', '--user', 'user_1');
+
+    expect(JSON.parse(stdout[0])).toMatchObject({ id: 'fb_1', hasVoted: true });
+  });
+
+  it('should read the config file', async () => {
+    server.configure({ apiKey: 'sf_file_key' });
+    files['/home/pm/.feedbackkit.json'] = JSON.stringify({ apiKey: 'sf_file_key', userId: 'user_9' });
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode' });
+
+    const code = await run(['vote', 'fb_1'], {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      env: { HOME: '/home/pm' },
+      readFile: async (path) => files[path],
+      fetch: server.fetch
+    });
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout[0]).toBe('Voted; fb_1 now has 1 votes');
+    expect(server.getVoters('fb_1')).toEqual(['user_9']);
+  });
+
+  it('should map errors to exit codes', async () => {
+    server.seedFeedback({ id: 'fb_1', title: 'Done', status: FeedbackStatus.Completed, voters: ['user_1'] });
+
+    expect(await cli('get', 'missing')).toBe(EXIT_CODES.notFound);
+    expect(await cli('vote', 'fb_1', '-u', 'user_1')).toBe(EXIT_CODES.forbidden);
+    server.configure({ apiKey: 'sf_env_key' });
+    expect(await cli('get', 'fb_1', '--api-key', 'sf_bad')).toBe(EXIT_CODES.authentication);
+    expect(await cli('get', 'fb_1', '--api-key', 'bad')).toBe(EXIT_CODES.validation);
+    expect(await cli('comment', 'fb_1', ' ', '-u', 'user_1')).toBe(EXIT_CODES.validation);
+    expect(stderr).toContain('  content: content is required');
+  });
+
+  it('should reject invalid usage', async () => {
+    expect(await cli('list', '--status', 'shipped')).toBe(EXIT_CODES.usage);
+    expect(await cli('vote', 'fb_1')).toBe(EXIT_CODES.usage);
+    expect(await cli('frobnicate')).toBe(EXIT_CODES.usage);
+    expect(server.calls).toEqual([]);
+  });
+});
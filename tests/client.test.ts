@@ -1,5 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { FeedbackKit, FeedbackCategory, FeedbackStatus } from '../src';
+import {
+  FeedbackKit,
+  FeedbackCategory,
+  FeedbackSort,
+  FeedbackStatus,
+  NotFoundError,
+  NetworkError,
+  AbortedError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError
+} from '../src';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -20,6 +32,11 @@ describe('FeedbackKit', () => {
       expect(() => new FeedbackKit({ apiKey: '' })).toThrow('apiKey is required');
     });
 
+    it('should throw a ValidationError for a malformed apiKey', () => {
+      expect(() => new FeedbackKit({ apiKey: 'pk_test_key' })).toThrow(ValidationError);
+      expect(() => new FeedbackKit({ apiKey: 'pk_test_key' })).toThrow('apiKey must start with sf_');
+    });
+
     it('should use default baseUrl if not provided', () => {
       const client = new FeedbackKit({ apiKey: 'sf_test_key' });
       expect(client.getBaseUrl()).toBe('https://api.feedbackkit.app/api/v1');
@@ -45,6 +62,20 @@ describe('FeedbackKit', () => {
       client.setUserId(undefined);
       expect(client.getUserId()).toBeUndefined();
     });
+
+    it('should notify listeners when the user changes', () => {
+      const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+      const changes: Array<string | undefined> = [];
+      const unsubscribe = client.onUserIdChange((userId) => changes.push(userId));
+
+      client.setUserId('user_123');
+      client.setUserId('user_123');
+      client.setUserId(undefined);
+      unsubscribe();
+      client.setUserId('user_456');
+
+      expect(changes).toEqual(['user_123', undefined]);
+    });
   });
 
   describe('feedback.list', () => {
@@ -186,7 +217,7 @@ describe('FeedbackKit', () => {
         json: () => Promise.resolve({ error: true, reason: 'Invalid API key' })
       });
 
-      const client = new FeedbackKit({ apiKey: 'invalid_key' });
+      const client = new FeedbackKit({ apiKey: 'sf_invalid_key' });
       await expect(client.feedback.list()).rejects.toThrow('Invalid API key');
     });
 
@@ -219,5 +250,571 @@ describe('FeedbackKit', () => {
       await expect(client.votes.vote('feedback-id', { userId: 'user_123' }))
         .rejects.toThrow('Already voted');
     });
+
+    it('should throw RateLimitError with retryAfter for 429', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'content-type': 'application/json', 'retry-after': '30', 'x-request-id': 'req_1' }),
+        json: () => Promise.resolve({ error: true, reason: 'Slow down' })
+      });
+
+      const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+      const error = await client.votes.vote('feedback-id', { userId: 'user_123' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({
+        message: 'Slow down',
+        statusCode: 429,
+        code: 'RATE_LIMITED',
+        retryAfter: 30000,
+        retryable: true,
+        method: 'POST',
+        path: '/feedbacks/feedback-id/votes',
+        requestId: 'req_1',
+        body: { error: true, reason: 'Slow down' }
+      });
+      expect(error.headers.get('retry-after')).toBe('30');
+    });
+
+    it('should throw ServerError for 5xx', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          headers: new Headers({ 'content-type': 'text/plain' }),
+          text: () => Promise.resolve('Service Unavailable')
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 501,
+          headers: new Headers({ 'content-type': 'text/plain' }),
+          text: () => Promise.resolve('')
+        });
+
+      const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: false });
+      const unavailable = await client.feedback.get('fb_1').catch((e) => e);
+      const notImplemented = await client.feedback.get('fb_2').catch((e) => e);
+
+      expect(unavailable).toBeInstanceOf(ServerError);
+      expect(unavailable).toMatchObject({
+        message: 'Service Unavailable',
+        statusCode: 503,
+        code: 'SERVER_ERROR',
+        retryable: true,
+        method: 'GET',
+        path: '/feedbacks/fb_1',
+        body: 'Service Unavailable'
+      });
+      expect(notImplemented).toBeInstanceOf(ServerError);
+      expect(notImplemented.retryable).toBe(false);
+    });
+
+    it('should attach the request to network errors', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: false });
+      const error = await client.comments.list('fb_1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ method: 'GET', path: '/feedbacks/fb_1/comments', retryable: true, headers: null });
+    });
+
+    it('should not mark client errors as retryable', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ error: true, reason: 'Bad title' })
+      });
+
+      const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+      const error = await client.feedback.list().catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.retryable).toBe(false);
+      expect(error.requestId).toBeUndefined();
+    });
+  });
+});
+
+describe('retries', () => {
+  const retry = { baseDelay: 1, jitter: false };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should retry GET requests on retryable status codes', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        headers: new Headers({ 'content-type': 'application/json', 'retry-after': '0' }),
+        json: () => Promise.resolve({ error: true, reason: 'Unavailable' })
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve([])
+      });
+
+    const onRetry = vi.fn();
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: { ...retry, onRetry } });
+    await expect(client.feedback.list()).resolves.toEqual([]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, delay: 0, method: 'GET', path: '/feedbacks', statusCode: 503 })
+    );
+  });
+
+  it('should retry network errors up to maxAttempts', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: { ...retry, maxAttempts: 3 } });
+    await expect(client.feedback.get('feedback-id')).rejects.toThrow('fetch failed');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry POST requests without an idempotency key', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry });
+    await expect(client.votes.vote('feedback-id', { userId: 'user_123' })).rejects.toThrow('fetch failed');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve({ error: true, reason: 'Not found' })
+    });
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry });
+    await expect(client.feedback.get('missing')).rejects.toThrow('Not found');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when disabled', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: false });
+    await expect(client.feedback.list()).rejects.toThrow('fetch failed');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('transport', () => {
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body))
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should use an injected fetch instead of the global one', async () => {
+    const customFetch = vi.fn().mockResolvedValue(jsonResponse([]));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch: customFetch });
+    await client.feedback.list();
+
+    expect(customFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/feedbacks'),
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send built requests through a custom transport', async () => {
+    const send = vi.fn().mockResolvedValue(jsonResponse({ feedback_id: 'fb_1', vote_count: 2, has_voted: true }));
+
+    const client = new FeedbackKit({
+      apiKey: 'sf_test_key',
+      baseUrl: 'http://localhost:8080/api/v1',
+      userId: 'user_123',
+      transport: { send }
+    });
+    const result = await client.votes.vote('fb_1', { userId: 'user_123' });
+
+    expect(result).toEqual({ feedbackId: 'fb_1', voteCount: 2, hasVoted: true });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'http://localhost:8080/api/v1/feedbacks/fb_1/votes',
+      method: 'POST',
+      headers: expect.objectContaining({ 'X-API-Key': 'sf_test_key', 'X-User-Id': 'user_123' }),
+      body: JSON.stringify({ user_id: 'user_123', notify_status_change: false }),
+      signal: expect.any(AbortSignal)
+    }));
+  });
+});
+
+describe('interceptors', () => {
+  const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status < 400,
+    status,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body)
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should let onRequest modify headers and URL', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', baseUrl: 'http://localhost/api/v1' });
+    client.use({
+      onRequest(request) {
+        request.headers['X-Tenant-Id'] = 'tenant_1';
+        request.url = request.url.replace('http://localhost', 'https://gateway.example.com');
+      }
+    });
+    await client.feedback.list();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://gateway.example.com/api/v1/feedbacks',
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-Tenant-Id': 'tenant_1' }) })
+    );
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const onResponse = vi.fn();
+    client.use({ onResponse });
+    client.use({
+      onRequest: () => ({ status: 200, headers: new Headers(), data: [{ id: 'cached' }] })
+    });
+
+    await expect(client.feedback.list()).resolves.toEqual([{ id: 'cached' }]);
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(onResponse).toHaveBeenCalled();
+  });
+
+  it('should run onResponse hooks in reverse registration order', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'fb_1' }));
+
+    const calls: string[] = [];
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    client.use({ onRequest: () => { calls.push('a:request'); }, onResponse: () => { calls.push('a:response'); } });
+    client.use({ onRequest: () => { calls.push('b:request'); }, onResponse: () => { calls.push('b:response'); } });
+    await client.feedback.get('fb_1');
+
+    expect(calls).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+  });
+
+  it('should let onError transform or recover from errors', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: true, reason: 'Gone' }, 404));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const eject = client.use({
+      onError: (error) => new NotFoundError(`Wrapped: ${error.message}`)
+    });
+    await expect(client.feedback.get('fb_1')).rejects.toThrow('Wrapped: Gone');
+
+    eject();
+    client.use({ onError: () => ({ status: 200, headers: new Headers(), data: null }) });
+    await expect(client.feedback.get('fb_1')).resolves.toBeNull();
+  });
+});
+
+describe('pagination', () => {
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body)
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should send sort, pagination and multi-value filters', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ items: [], next_cursor: null }));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', baseUrl: 'http://localhost/api/v1' });
+    await client.feedback.list({
+      status: [FeedbackStatus.Approved, FeedbackStatus.InProgress],
+      category: FeedbackCategory.BugReport,
+      sort: FeedbackSort.Newest,
+      limit: 10,
+      cursor: 'abc'
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://localhost/api/v1/feedbacks?status=approved&status=in_progress&category=bug_report&sort=newest&limit=10&cursor=abc',
+      expect.any(Object)
+    );
+  });
+
+  it('should normalize list responses into pages', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse([{ id: 'fb_1' }]))
+      .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'fb_2' }], next_cursor: 'next', total: 5 }));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+
+    await expect(client.feedback.listPage()).resolves.toEqual({ items: [{ id: 'fb_1' }], nextCursor: null });
+    await expect(client.feedback.listPage({ limit: 1 })).resolves.toEqual({
+      items: [{ id: 'fb_2' }],
+      nextCursor: 'next',
+      total: 5
+    });
+  });
+
+  it('should iterate over all pages', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'fb_1' }, { id: 'fb_2' }], next_cursor: 'c2' }))
+      .mockResolvedValueOnce(jsonResponse({ items: [{ id: 'fb_3' }], next_cursor: null }));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', baseUrl: 'http://localhost/api/v1' });
+    const ids: string[] = [];
+    for await (const item of client.feedback.iterate({ limit: 2 })) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(['fb_1', 'fb_2', 'fb_3']);
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost/api/v1/feedbacks?limit=2',
+      'http://localhost/api/v1/feedbacks?limit=2&cursor=c2'
+    ]);
+  });
+});
+
+describe('per-call options', () => {
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body)
+  });
+
+  // Resolves never, rejects with an AbortError when the request signal fires
+  const hangingFetch = (_url: string, init: RequestInit) =>
+    new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+      });
+    });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should reject with AbortedError when the caller aborts', async () => {
+    mockFetch.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const pending = client.feedback.get('fb_1', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortedError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    await expect(client.comments.list('fb_1', { signal: controller.signal })).rejects.toBeInstanceOf(AbortedError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should report per-call timeouts as NetworkError', async () => {
+    mockFetch.mockImplementation(hangingFetch);
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', retry: false });
+    const error = await client.feedback.list(undefined, { timeout: 10 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).not.toBeInstanceOf(AbortedError);
+    expect(error.message).toBe('Request timeout');
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ method: 'GET', path: '/feedbacks', retryable: true });
+  });
+
+  it('should send extra headers and idempotency keys', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ feedbackId: 'fb_1', voteCount: 1, hasVoted: true }));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    await client.votes.vote('fb_1', { userId: 'user_123' }, {
+      headers: { 'X-Trace-Id': 'trace_1' },
+      idempotencyKey: 'key_1'
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      headers: expect.objectContaining({ 'X-Trace-Id': 'trace_1', 'Idempotency-Key': 'key_1' })
+    }));
+  });
+
+  it('should stop waiting on aborted cached reads without failing other callers', async () => {
+    let resolve!: (value: unknown) => void;
+    mockFetch.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+    const controller = new AbortController();
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', cache: true });
+    const aborted = client.feedback.get('fb_1', { signal: controller.signal });
+    const other = client.feedback.get('fb_1');
+    controller.abort();
+    resolve(jsonResponse({ id: 'fb_1' }));
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+    await expect(other).resolves.toEqual({ id: 'fb_1' });
+  });
+});
+
+describe('request deduplication', () => {
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(body)
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should coalesce identical concurrent GETs', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([{ id: 'fb_1' }]));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_1' });
+    const results = await Promise.all([client.feedback.list(), client.feedback.list(), client.feedback.list()]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([[{ id: 'fb_1' }], [{ id: 'fb_1' }], [{ id: 'fb_1' }]]);
+  });
+
+  it('should fan errors out to all callers', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve({ error: true, reason: 'Not found' })
+    });
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const results = await Promise.allSettled([client.feedback.get('fb_1'), client.feedback.get('fb_1')]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should start a new request once the shared one has settled', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'fb_1', voteCount: 1 }));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'fb_1', voteCount: 2 }));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const second = await client.feedback.get('fb_1').then(() => client.feedback.get('fb_1'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(second).toMatchObject({ voteCount: 2 });
+  });
+
+  it('should not merge requests for different users, URLs or opted-out calls', async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(jsonResponse([])));
+
+    const alice = new FeedbackKit({ apiKey: 'sf_test_key', fetch: mockFetch, userId: 'alice' });
+    const bob = new FeedbackKit({ apiKey: 'sf_test_key', fetch: mockFetch, userId: 'bob' });
+    const pending = [alice.feedback.list(), bob.feedback.list()];
+    alice.setUserId('carol');
+    pending.push(alice.feedback.list());
+    await Promise.all([
+      ...pending,
+      alice.feedback.list({ status: FeedbackStatus.Pending }),
+      alice.feedback.list(undefined, { dedupe: false })
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not merge calls with different timeouts or operations', async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(jsonResponse({ id: 'fb_1' })));
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch: mockFetch });
+    await Promise.all([
+      client.feedback.get('fb_1'),
+      client.feedback.get('fb_1', { timeout: 1000 }),
+      client.feedback.list(),
+      client.feedback.listPage()
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should remove abort listeners once the shared request settles', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ id: 'fb_1' }));
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    await Promise.all([
+      client.feedback.get('fb_1', { signal: controller.signal }),
+      client.feedback.get('fb_1', { signal: controller.signal })
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(add).toHaveBeenCalledTimes(4);
+    expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(
+      expect.arrayContaining(add.mock.calls.map(([, listener]) => listener))
+    );
+  });
+
+  it('should only cancel the shared request once every caller aborted', async () => {
+    let requestSignal: AbortSignal | undefined;
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+      requestSignal = init.signal ?? undefined;
+      return new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+        });
+      });
+    });
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const a = client.feedback.get('fb_1', { signal: first.signal });
+    const b = client.feedback.get('fb_1', { signal: second.signal });
+
+    first.abort();
+    await expect(a).rejects.toBeInstanceOf(AbortedError);
+    expect(requestSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toBeInstanceOf(AbortedError);
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('should start a new request after every caller of the shared one aborted', async () => {
+    mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      });
+    }));
+    mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 'fb_1' }]));
+
+    const controller = new AbortController();
+    const client = new FeedbackKit({ apiKey: 'sf_test_key' });
+    const first = client.feedback.list(undefined, { signal: controller.signal });
+    controller.abort();
+    const second = client.feedback.list();
+
+    await expect(first).rejects.toBeInstanceOf(AbortedError);
+    await expect(second).resolves.toEqual([{ id: 'fb_1' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
   });
 });
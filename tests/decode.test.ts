@@ -0,0 +1,110 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackStatus,
+  FeedbackCategory,
+  ResponseDecodeError,
+  decodeFeedback,
+  decodeSDKUser
+} from '../src';
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+const feedback = (overrides: Record<string, unknown> = {}) => ({
+  id: 'fb_1',
+  title: 'Dark mode',
+  description: 'Please add a dark theme.',
+  status: 'approved',
+  category: 'feature_request',
+  userId: 'user_1',
+  voteCount: 3,
+  hasVoted: false,
+  commentCount: 0,
+  createdAt: '2024-01-15T10:30:00Z',
+  updatedAt: '2024-01-16T08:00:00Z',
+  ...overrides
+});
+
+describe('decoders', () => {
+  it('should map unknown statuses and categories to Unknown', () => {
+    const decoded = decodeFeedback(feedback({ status: 'shipped_to_mars', category: 'praise' }));
+
+    expect(decoded.status).toBe(FeedbackStatus.Unknown);
+    expect(decoded.category).toBe(FeedbackCategory.Unknown);
+    expect(decoded.title).toBe('Dark mode');
+  });
+
+  it('should convert dates when requested', () => {
+    const decoded = decodeFeedback(feedback({ mergedAt: '2024-02-01T00:00:00Z' }), { dates: true });
+
+    expect(decoded.createdAt).toBeInstanceOf(Date);
+    expect(decoded.createdAt.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(decoded.mergedAt).toBeInstanceOf(Date);
+    expect(decodeFeedback(feedback()).createdAt).toBe('2024-01-15T10:30:00Z');
+  });
+
+  it('should list every issue in strict mode', () => {
+    const error = (() => {
+      try {
+        decodeFeedback(feedback({ voteCount: '3', updatedAt: 'yesterday', title: undefined }), { strict: true });
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ResponseDecodeError);
+    expect((error as ResponseDecodeError).issues).toEqual([
+      'title: missing',
+      'voteCount: expected number',
+      'updatedAt: expected a date string'
+    ]);
+  });
+
+  it('should pass malformed fields through without strict mode', () => {
+    expect(decodeSDKUser({ id: 'u', userId: 'user_1', mrr: 'lots' })).toMatchObject({ mrr: 'lots' });
+  });
+});
+
+describe('client decoding', () => {
+  it('should decode list responses when enabled', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse([feedback({ status: 'archived' })]));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, decode: true });
+
+    const [item] = await client.feedback.list();
+
+    expect(item.status).toBe(FeedbackStatus.Unknown);
+  });
+
+  it('should reject malformed responses in strict mode', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ feedback_id: 'fb_1', vote_count: null }));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, decode: { strict: true } });
+
+    await expect(client.votes.vote('fb_1', { userId: 'user_1' })).rejects.toThrow(ResponseDecodeError);
+  });
+
+  it('should convert dates when the client decodes with dates', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(feedback()));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, decode: { strict: true, dates: true } });
+
+    const item = await client.feedback.get('fb_1');
+
+    expectTypeOf(item.createdAt).toEqualTypeOf<Date>();
+    expect(item.createdAt).toEqual(new Date('2024-01-15T10:30:00Z'));
+    expect(item.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('should leave responses untouched by default', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse([feedback({ status: 'archived' })]));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch });
+
+    const [item] = await client.feedback.list();
+
+    expect(item.status).toBe('archived');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { FeedbackKit, EventBufferConfig, MemoryStorage, TrackedEvent } from '../src';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+function createClient(eventBuffer: EventBufferConfig) {
+  const fetch = vi.fn().mockResolvedValue(jsonResponse([]));
+  const client = new FeedbackKit({
+    apiKey: 'sf_test_key',
+    fetch,
+    retry: false,
+    eventBuffer: { flushInterval: 0, flushOnExit: false, ...eventBuffer }
+  });
+  return { client, fetch };
+}
+
+describe('buffered events', () => {
+  it('should send nothing until flushed', async () => {
+    const { client, fetch } = createClient({});
+
+    client.events.enqueue({ eventName: 'feedback_list', userId: 'user_1' });
+    expect(fetch).not.toHaveBeenCalled();
+
+    client.events.enqueue({ eventName: 'feedback_detail', userId: 'user_1', properties: { feedbackId: 'fb_1' } });
+    await client.events.flush();
+
+    // One request per event; the API has no batch endpoint
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      expect.stringMatching(/\/events\/track$/),
+      expect.stringMatching(/\/events\/track$/)
+    ]);
+    expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body))).toEqual([
+      { event_name: 'feedback_list', user_id: 'user_1' },
+      { event_name: 'feedback_detail', user_id: 'user_1', properties: { feedback_id: 'fb_1' } }
+    ]);
+    const [first, second] = fetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(first).toEqual(expect.any(String));
+    expect(second).not.toBe(first);
+  });
+
+  it('should flush when the batch size is reached', async () => {
+    const { client, fetch } = createClient({ maxBatchSize: 2 });
+
+    client.events.enqueue({ eventName: 'a', userId: 'user_1' });
+    client.events.enqueue({ eventName: 'b', userId: 'user_1' });
+
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+  });
+
+  it('should flush on the configured interval', async () => {
+    vi.useFakeTimers();
+    try {
+      const { client, fetch } = createClient({ flushInterval: 1000 });
+      client.events.enqueue({ eventName: 'a', userId: 'user_1' });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should retry failed batches on later flushes with the same idempotency key', async () => {
+    const onError = vi.fn();
+    const { client, fetch } = createClient({ maxRetries: 1, onError });
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    client.events.enqueue({ eventName: 'a', userId: 'user_1' });
+    await client.events.flush();
+    await client.events.flush();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[0][1].headers['Idempotency-Key']).toBe(fetch.mock.calls[1][1].headers['Idempotency-Key']);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), [{ eventName: 'a', userId: 'user_1' }]);
+  });
+
+  it('should buffer track() and resolve right away', async () => {
+    const { client, fetch } = createClient({});
+
+    const tracked = client.events.track({ eventName: 'feedback_list', userId: 'user_1' });
+    expectTypeOf(tracked).toEqualTypeOf<Promise<null>>();
+
+    await expect(tracked).resolves.toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+
+    await client.events.flush();
+    expect(fetch.mock.calls[0][0]).toMatch(/\/events\/track$/);
+  });
+
+  it('should still send track() right away without a buffer', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ id: 'ev_1', eventName: 'feedback_list', userId: 'user_1' }));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, retry: false });
+
+    const tracked = client.events.track({ eventName: 'feedback_list', userId: 'user_1' });
+    expectTypeOf(tracked).toEqualTypeOf<Promise<TrackedEvent>>();
+
+    await expect(tracked).resolves.toMatchObject({ id: 'ev_1', eventName: 'feedback_list' });
+  });
+
+  it('should send at most four batched events at a time', async () => {
+    const fetch = vi.fn();
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, retry: false });
+    let inFlight = 0;
+    let maxInFlight = 0;
+    fetch.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return jsonResponse({ id: 'ev_1', eventName: 'a', userId: 'user_1' });
+    });
+
+    const events = await client.events.trackBatch(
+      Array.from({ length: 10 }, (_, index) => ({ eventName: `event_${index}`, userId: 'user_1' }))
+    );
+
+    expect(events).toHaveLength(10);
+    expect(fetch).toHaveBeenCalledTimes(10);
+    expect(maxInFlight).toBe(4);
+    expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body).event_name)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `event_${index}`)
+    );
+  });
+
+  it('should drop batches rejected by the server', async () => {
+    const onError = vi.fn();
+    const { client, fetch } = createClient({ onError });
+    fetch.mockResolvedValue(jsonResponse({ error: true, reason: 'Invalid event' }, 400));
+
+    client.events.enqueue({ eventName: '', userId: 'user_1' });
+    await client.events.flush();
+    await client.events.flush();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush and stop on destroy', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetch = vi.fn().mockRejectedValueOnce(new TypeError('fetch failed'));
+      const client = new FeedbackKit({
+        apiKey: 'sf_test_key',
+        fetch,
+        retry: false,
+        eventBuffer: { flushInterval: 1000 },
+        offline: { storage: new MemoryStorage(), replayOnReconnect: false, replayInterval: 1000 }
+      });
+      const exitListeners = process.listenerCount('beforeExit');
+      await client.comments.create('fb_1', { content: 'Hi', userId: 'user_1' }).catch(() => undefined);
+      fetch.mockResolvedValue(jsonResponse({}));
+      client.events.enqueue({ eventName: 'a', userId: 'user_1' });
+
+      await client.destroy();
+
+      expect(fetch.mock.calls.slice(1).map(([url]) => url)).toEqual([
+        expect.stringMatching(/\/events\/track$/),
+        expect.stringMatching(/\/comments$/)
+      ]);
+      expect(client.outbox?.getState().pending).toHaveLength(0);
+      expect(process.listenerCount('beforeExit')).toBe(exitListeners - 1);
+
+      client.events.enqueue({ eventName: 'b', userId: 'user_1' });
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FeedbackKit, FeedbackExporter, FeedbackStatus, ExportColumn } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+describe('FeedbackExporter', () => {
+  let server: FakeFeedbackKitServer;
+  let exporter: FeedbackExporter;
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch: server.fetch, retry: false });
+    exporter = new FeedbackExporter(client.feedback, client.comments);
+
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', description: 'Line one\nsaid "hi", twice', voteCount: 5 });
+    server.seedFeedback({
+      id: 'fb_2',
+      title: 'Old idea',
+      status: FeedbackStatus.Rejected,
+      rejectionReason: 'Out of scope',
+      mergedIntoId: 'fb_1',
+      voteCount: 1
+    });
+    server.seedComment('fb_1', { content: 'Yes please', userId: 'user_1' });
+    server.seedComment('fb_1', { content: 'On it', userId: 'admin', isAdmin: true });
+  });
+
+  it('should escape CSV fields', async () => {
+    const csv = await exporter.toString({ format: 'csv', columns: ['id', 'description', 'voteCount'] });
+
+    expect(csv).toBe(
+      'id,description,voteCount\r\n' +
+      'fb_1,"Line one\nsaid ""hi"", twice",5\r\n' +
+      'fb_2,,1\r\n'
+    );
+  });
+
+  it('should neutralize formulas in CSV cells unless disabled', async () => {
+    server.reset();
+    server.seedFeedback({ id: 'fb_1', title: '=HYPERLINK("http://evil.test")', description: '@SUM(A1)' });
+    server.seedFeedback({ id: 'fb_2', title: '+cmd', description: '-1.5' });
+    const columns: ExportColumn[] = ['id', 'title', 'description'];
+
+    expect(await exporter.toString({ format: 'csv', columns })).toBe(
+      'id,title,description\r\n' +
+      'fb_1,"\'=HYPERLINK(""http://evil.test"")",\'@SUM(A1)\r\n' +
+      'fb_2,\'+cmd,-1.5\r\n'
+    );
+    expect(await exporter.toString({ format: 'csv', columns, escapeFormulas: false })).toContain(
+      'fb_1,"=HYPERLINK(""http://evil.test"")",@SUM(A1)\r\n'
+    );
+  });
+
+  it('should include merged items and comments in JSON Lines', async () => {
+    const lines = (await exporter.toString({
+      format: 'jsonl',
+      columns: ['id', 'status', 'rejectionReason'],
+      includeComments: true
+    })).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(lines).toEqual([
+      { id: 'fb_1', status: 'pending', rejectionReason: null, comments: [
+        expect.objectContaining({ content: 'Yes please' }),
+        expect.objectContaining({ content: 'On it', isAdmin: true })
+      ] },
+      { id: 'fb_2', status: 'rejected', rejectionReason: 'Out of scope', comments: [] }
+    ]);
+    expect(server.callsTo('GET', '/feedbacks')[0].query.include_merged).toEqual(['true']);
+  });
+
+  it('should flatten JSON', async () => {
+    const json = JSON.parse(await exporter.toString({
+      format: 'json',
+      columns: ['id', 'voteCount', 'comments'],
+      filter: { status: FeedbackStatus.Pending }
+    }));
+
+    expect(json).toEqual([{ id: 'fb_1', voteCount: 5, comments: 'user_1: Yes please\nadmin (admin): On it' }]);
+  });
+
+  it('should stream page by page', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of exporter.stream({ format: 'jsonl', columns: ['id'], pageSize: 1 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['{"id":"fb_1"}\n', '{"id":"fb_2"}\n']);
+    expect(server.callsTo('GET', '/feedbacks')).toHaveLength(2);
+  });
+
+  it('should produce an empty JSON array without feedback', async () => {
+    server.reset();
+    expect(JSON.parse(await exporter.toString({ format: 'json' }))).toEqual([]);
+  });
+});
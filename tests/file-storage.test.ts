@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as core from '../src';
+import { FileStorage } from '../src/node';
+
+describe('FileStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'feedbackkit-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist values to a JSON file', async () => {
+    const path = join(directory, 'storage.json');
+    const storage = new FileStorage(path);
+
+    expect(await storage.getItem('missing')).toBeNull();
+    await storage.setItem('a', '1');
+    await storage.setItem('b', '2');
+    await storage.removeItem('a');
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ b: '2' });
+    expect(await new FileStorage(path).getItem('b')).toBe('2');
+  });
+
+  it('should not be part of the core entry', () => {
+    expect(core).not.toHaveProperty('FileStorage');
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FeedbackKit, FeedbackKitConfig, Tracer, TraceSpan, Metrics, AttributeValue } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, AttributeValue>;
+  status?: { code: number; message?: string };
+  exception?: Error;
+  ended: boolean;
+}
+
+describe('instrumentation', () => {
+  let server: FakeFeedbackKitServer;
+  let spans: RecordedSpan[];
+  let measurements: Array<[string, string, number, Record<string, AttributeValue>]>;
+
+  const tracer: Tracer = {
+    startSpan(name, options) {
+      const span: RecordedSpan = { name, kind: options?.kind, attributes: { ...options?.attributes }, ended: false };
+      spans.push(span);
+      const traceSpan: TraceSpan = {
+        setAttribute: (key, value) => {
+          span.attributes[key] = value;
+        },
+        recordException: (error) => {
+          span.exception = error;
+        },
+        setStatus: (status) => {
+          span.status = status;
+        },
+        spanContext: () => ({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }),
+        end: () => {
+          span.ended = true;
+        }
+      };
+      return traceSpan;
+    }
+  };
+
+  const metrics: Metrics = {
+    counter: (name, value, attributes) => measurements.push(['counter', name, value, attributes]),
+    histogram: (name, value, attributes) => measurements.push(['histogram', name, value, attributes])
+  };
+
+  const createClient = (config: Partial<FeedbackKitConfig> = {}) =>
+    new FeedbackKit({ apiKey: 'sf_test_key', fetch: server.fetch, retry: false, tracer, metrics, ...config });
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode' });
+    spans = [];
+    measurements = [];
+  });
+
+  it('should create a span per request named by operation', async () => {
+    const client = createClient({ userId: 'user_1' });
+
+    await client.feedback.list();
+    await client.votes.vote('fb_1');
+
+    expect(spans.map((span) => span.name)).toEqual(['feedback.list', 'votes.vote']);
+    expect(spans[1]).toMatchObject({
+      kind: 2,
+      ended: true,
+      attributes: {
+        'feedbackkit.operation': 'votes.vote',
+        'http.request.method': 'POST',
+        'url.full': 'https://feedbackkit.swiftly-workspace.com/api/v1/feedbacks/fb_1/votes',
+        'http.response.status_code': 200,
+        'feedbackkit.retries': 0
+      }
+    });
+    expect(spans[1].status).toBeUndefined();
+  });
+
+  it('should redact secrets from the span URL', async () => {
+    const client = createClient({ logger: { level: 'silent', redact: ['session'] } });
+    client.use({
+      onRequest(request) {
+        request.url += '?status=approved&api_key=sf_secret_key&session=s1&user_email=jane%40example.com';
+      }
+    });
+
+    await client.feedback.list();
+
+    expect(spans[0].attributes['url.full']).toBe(
+      'https://feedbackkit.swiftly-workspace.com/api/v1/feedbacks?status=approved&api_key=[REDACTED]&session=[REDACTED]&user_email=[REDACTED]'
+    );
+  });
+
+  it('should propagate the trace context', async () => {
+    const client = createClient();
+
+    await client.feedback.get('fb_1');
+    await client.feedback.get('fb_1', { headers: { traceparent: 'from-caller' } });
+
+    const [first, second] = server.callsTo('GET', '/feedbacks/fb_1');
+    expect(first.headers.traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+    expect(second.headers.traceparent).toBe('from-caller');
+  });
+
+  it('should not send a traceparent for invalid span contexts', async () => {
+    const noopTracer: Tracer = {
+      startSpan: () => ({
+        setAttribute: () => undefined,
+        spanContext: () => ({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 }),
+        end: () => undefined
+      })
+    };
+    const client = createClient({ tracer: noopTracer });
+
+    await client.comments.list('fb_1');
+
+    expect(server.calls[0].headers).not.toHaveProperty('traceparent');
+  });
+
+  it('should record failures on spans and metrics', async () => {
+    const client = createClient();
+
+    await expect(client.feedback.get('missing')).rejects.toThrow('Feedback not found');
+
+    expect(spans[0].attributes).toMatchObject({ 'http.response.status_code': 404, 'error.type': 'NotFoundError' });
+    expect(spans[0].status).toEqual({ code: 2, message: 'Feedback not found' });
+    expect(spans[0].exception?.name).toBe('NotFoundError');
+
+    const attributes = {
+      'feedbackkit.operation': 'feedback.get',
+      'http.request.method': 'GET',
+      'http.response.status_code': 404,
+      'error.type': 'NotFoundError'
+    };
+    expect(measurements).toEqual([
+      ['counter', 'feedbackkit.requests', 1, attributes],
+      ['histogram', 'feedbackkit.request.duration', expect.any(Number), attributes],
+      ['counter', 'feedbackkit.request.failures', 1, attributes]
+    ]);
+  });
+
+  it('should count retries and network errors', async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const client = createClient({ fetch, retry: { maxAttempts: 3, baseDelay: 1, jitter: false } });
+
+    await expect(client.comments.list('fb_1')).rejects.toThrow('fetch failed');
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({ 'feedbackkit.retries': 2, 'error.type': 'NetworkError' });
+    expect(spans[0].attributes).not.toHaveProperty('http.response.status_code');
+  });
+
+  it('should not count aborted requests as failures', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetch = vi.fn();
+    const client = createClient({ fetch });
+
+    await expect(client.votes.vote('fb_1', { userId: 'user_1' }, { signal: controller.signal })).rejects.toThrow();
+
+    expect(spans[0].status).toBeUndefined();
+    expect(measurements.map(([, name]) => name)).toEqual(['feedbackkit.requests', 'feedbackkit.request.duration']);
+  });
+
+  it('should never fail requests because of instrumentation', async () => {
+    const client = createClient({
+      tracer: {
+        startSpan: () => {
+          throw new Error('tracer broken');
+        }
+      },
+      metrics: {
+        counter: () => {
+          throw new Error('metrics broken');
+        },
+        histogram: () => undefined
+      }
+    });
+
+    await expect(client.feedback.list()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FeedbackKit, FeedbackCategory, FeedbackKitConfig, LogRecord } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import { Logger } from '../src/utils/logger';
+
+describe('logger', () => {
+  let server: FakeFeedbackKitServer;
+  let records: LogRecord[];
+
+  const createClient = (config: Partial<FeedbackKitConfig> = {}) =>
+    new FeedbackKit({
+      apiKey: 'sf_secret_key',
+      fetch: server.fetch,
+      retry: false,
+      logger: { level: 'debug', sink: (record) => records.push(record) },
+      ...config
+    });
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode' });
+    records = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should log requests and responses with secrets redacted', async () => {
+    const client = createClient();
+
+    await client.feedback.create({
+      title: 'Sync',
+      description: 'Mail me at jane@example.com',
+      category: FeedbackCategory.Other,
+      userId: 'user_1',
+      userEmail: 'jane@example.com'
+    });
+
+    const [request, response] = records;
+    expect(request).toMatchObject({
+      level: 'debug',
+      event: 'request',
+      method: 'POST',
+      url: 'https://feedbackkit.swiftly-workspace.com/api/v1/feedbacks',
+      retries: 0,
+      headers: { 'X-API-Key': '[REDACTED]', 'Content-Type': 'application/json' },
+      body: { title: 'Sync', description: 'Mail me at [REDACTED]', userEmail: '[REDACTED]', userId: 'user_1' }
+    });
+    expect(request.requestBytes).toBeGreaterThan(0);
+    expect(response).toMatchObject({ level: 'info', event: 'response', status: 200, retries: 0 });
+    expect(response.duration).toBeGreaterThanOrEqual(0);
+    expect(JSON.stringify(records)).not.toContain('sf_secret_key');
+    expect(JSON.stringify(records)).not.toContain('jane@example.com');
+  });
+
+  it('should log retries and failures', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      headers: new Headers({ 'content-type': 'application/json', 'x-request-id': 'req_1' }),
+      json: () => Promise.resolve({ error: true, reason: 'Unavailable' })
+    });
+    const client = createClient({ fetch, retry: { maxAttempts: 2, baseDelay: 1, jitter: false } });
+
+    await expect(client.feedback.get('fb_1')).rejects.toThrow('Unavailable');
+
+    expect(records.map((record) => [record.level, record.event, record.retries])).toEqual([
+      ['debug', 'request', 0],
+      ['warn', 'retry', 0],
+      ['error', 'error', 1]
+    ]);
+    expect(records[1]).toMatchObject({ status: 503, delay: 1 });
+    expect(records[2].error).toEqual({
+      name: 'ServerError',
+      code: 'SERVER_ERROR',
+      message: 'Unavailable',
+      requestId: 'req_1'
+    });
+  });
+
+  it('should filter by level and redact extra fields', async () => {
+    const client = createClient({
+      logger: { level: 'info', redact: ['content'], sink: (record) => records.push(record) }
+    });
+
+    await client.comments.create('fb_1', { content: 'Secret plans', userId: 'user_1' });
+    await client.feedback.get('missing').catch(() => undefined);
+
+    expect(records.map((record) => record.event)).toEqual(['response', 'error']);
+    expect(records[1]).toMatchObject({ status: 404, error: { name: 'NotFoundError' } });
+
+    records = [];
+    const debugClient = createClient({
+      logger: { level: 'debug', redact: ['content'], sink: (record) => records.push(record) }
+    });
+    await debugClient.comments.create('fb_1', { content: 'Secret plans', userId: 'user_1' });
+    expect(records[0].body).toMatchObject({ content: '[REDACTED]' });
+  });
+
+  it('should redact sensitive query parameters in URLs', () => {
+    const logger = new Logger({ level: 'debug', redact: ['session'], sink: (record) => records.push(record) });
+
+    logger.log({
+      level: 'info',
+      event: 'response',
+      operation: 'feedback.list',
+      method: 'GET',
+      url: 'https://example.com/api/v1/feedbacks?status=approved&api_key=sf_secret_key&Token=abc&session=s1&user_email=jane%40example.com#top',
+      retries: 0
+    });
+
+    expect(records[0].url).toBe(
+      'https://example.com/api/v1/feedbacks?status=approved&api_key=[REDACTED]&Token=[REDACTED]&session=[REDACTED]&user_email=[REDACTED]#top'
+    );
+  });
+
+  it('should log to the console in debug mode', async () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const client = createClient({ logger: undefined, debug: true });
+
+    await client.feedback.list();
+
+    expect(debug).toHaveBeenCalledWith(
+      '[FeedbackKit] request GET https://feedbackkit.swiftly-workspace.com/api/v1/feedbacks',
+      expect.objectContaining({ event: 'request' })
+    );
+    expect(info).toHaveBeenCalledWith(
+      expect.stringMatching(/^\[FeedbackKit\] response GET .+ 200 \(\d+ms\)$/),
+      expect.objectContaining({ status: 200 })
+    );
+  });
+
+  it('should log nothing by default or when silenced', async () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    await createClient({ logger: undefined }).feedback.list();
+    await createClient({ logger: { level: 'silent', sink: (record) => records.push(record) } }).feedback.list();
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+    expect(records).toEqual([]);
+  });
+});
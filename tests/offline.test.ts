@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackCategory,
+  MemoryStorage,
+  QueuedError,
+  QueueOutcome,
+  ResponseDecodeError,
+  TimeoutError
+} from '../src';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+function createClient(storage = new MemoryStorage()) {
+  const fetch = vi.fn();
+  const outcomes: QueueOutcome[] = [];
+  const client = new FeedbackKit({
+    apiKey: 'sf_test_key',
+    fetch,
+    retry: false,
+    offline: { storage, replayOnReconnect: false, onOutcome: (outcome) => outcomes.push(outcome) }
+  });
+  return { client, fetch, outcomes };
+}
+
+describe('offline queue', () => {
+  it('should queue writes that fail with a network error', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const error = await client.comments.create('fb_1', { content: 'Hi', userId: 'user_1' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(QueuedError);
+    expect(error.queuedRequest).toMatchObject({ method: 'POST', path: '/feedbacks/fb_1/comments' });
+    expect(client.outbox?.getState().pending).toHaveLength(1);
+  });
+
+  it('should not queue reads', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(client.feedback.list()).rejects.not.toBeInstanceOf(QueuedError);
+    expect(client.outbox?.getState().pending).toHaveLength(0);
+  });
+
+  it('should replay queued writes in order and report outcomes', async () => {
+    const { client, fetch, outcomes } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await client.feedback.create({
+      title: 'Dark mode',
+      description: 'Please',
+      category: FeedbackCategory.FeatureRequest,
+      userId: 'user_1'
+    }).catch(() => undefined);
+    await client.events.track({ eventName: 'feedback_list', userId: 'user_1' }).catch(() => undefined);
+
+    fetch.mockReset();
+    fetch
+      .mockResolvedValueOnce(jsonResponse({ id: 'fb_1' }))
+      .mockResolvedValueOnce(jsonResponse({ error: true, reason: 'Project archived' }, 403));
+
+    await client.outbox?.replay();
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      expect.stringMatching(/\/feedbacks$/),
+      expect.stringMatching(/\/events\/track$/)
+    ]);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(['sent', 'failed']);
+    expect(client.outbox?.getState().pending).toHaveLength(0);
+  });
+
+  it('should not queue timeouts or invalid responses', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockRejectedValueOnce(new DOMException('The operation was aborted.', 'AbortError'));
+
+    await expect(client.votes.vote('fb_1', { userId: 'user_1' })).rejects.toBeInstanceOf(TimeoutError);
+
+    fetch.mockResolvedValueOnce({
+      ...jsonResponse(null),
+      json: () => Promise.reject(new SyntaxError('Unexpected end of JSON input'))
+    });
+    await expect(client.comments.create('fb_1', { content: 'Hi', userId: 'user_1' })).rejects.toBeInstanceOf(
+      ResponseDecodeError
+    );
+    expect(client.outbox?.getState().pending).toHaveLength(0);
+  });
+
+  it('should replay with the idempotency key generated when queued', async () => {
+    const { client, fetch } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    const error = await client.comments.create('fb_1', { content: 'Hi', userId: 'user_1' }).catch((e) => e);
+    await client.outbox?.replay();
+    fetch.mockResolvedValue(jsonResponse({ id: 'c_1' }));
+    await client.outbox?.replay();
+
+    const keys = fetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key']);
+    expect(error.queuedRequest.idempotencyKey).toEqual(expect.any(String));
+    expect(keys).toEqual([undefined, error.queuedRequest.idempotencyKey, error.queuedRequest.idempotencyKey]);
+  });
+
+  it('should keep items when replay is still offline', async () => {
+    const { client, fetch, outcomes } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await client.votes.vote('fb_1', { userId: 'user_1' }).catch(() => undefined);
+    await client.outbox?.replay();
+
+    expect(outcomes).toEqual([]);
+    expect(client.outbox?.getState().pending[0]).toMatchObject({ attempts: 1 });
+  });
+
+  it.each([
+    ['server errors', 503],
+    ['rate limits', 429]
+  ])('should keep items and stop replaying on %s', async (_, status) => {
+    const { client, fetch, outcomes } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+    await client.votes.vote('fb_1', { userId: 'user_1' }).catch(() => undefined);
+    await client.comments.create('fb_1', { content: 'Hi', userId: 'user_1' }).catch(() => undefined);
+
+    fetch.mockReset();
+    fetch.mockResolvedValue(jsonResponse({ error: true, reason: 'Try again later' }, status));
+    await client.outbox?.replay();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual([]);
+    expect(client.outbox?.getState().pending).toHaveLength(2);
+  });
+
+  it('should cancel out a queued vote and unvote', async () => {
+    const { client, fetch, outcomes } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+
+    await client.votes.vote('fb_1', { userId: 'user_1' }).catch(() => undefined);
+    const error = await client.votes.unvote('fb_1', { userId: 'user_1' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(QueuedError);
+    expect(error.queuedRequest).toBeNull();
+    expect(client.outbox?.getState().pending).toHaveLength(0);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  it('should not cancel out a vote that is being replayed', async () => {
+    const { client, fetch, outcomes } = createClient();
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+    await client.votes.vote('fb_1', { userId: 'user_1' }).catch(() => undefined);
+
+    let respond!: (value: unknown) => void;
+    fetch.mockReturnValueOnce(new Promise((resolve) => { respond = resolve; }));
+    const replay = client.outbox?.replay();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+
+    const error = await client.votes.unvote('fb_1', { userId: 'user_1' }).catch((e) => e);
+    expect(error.queuedRequest).toMatchObject({ method: 'DELETE', path: '/feedbacks/fb_1/votes' });
+
+    fetch.mockResolvedValue(jsonResponse({ feedbackId: 'fb_1', voteCount: 0, hasVoted: false }));
+    respond(jsonResponse({ feedbackId: 'fb_1', voteCount: 1, hasVoted: true }));
+    await replay;
+
+    expect(fetch.mock.calls.slice(1).map(([, init]) => init.method)).toEqual(['POST', 'DELETE', 'DELETE']);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(['sent', 'sent']);
+    expect(client.outbox?.getState().pending).toHaveLength(0);
+  });
+
+  it('should restore and replay items from storage', async () => {
+    const storage = new MemoryStorage();
+    const first = createClient(storage);
+    first.fetch.mockRejectedValue(new TypeError('fetch failed'));
+    await first.client.votes.vote('fb_1', { userId: 'user_1' }).catch(() => undefined);
+
+    const second = createClient(storage);
+    second.fetch.mockResolvedValue(jsonResponse({ feedbackId: 'fb_1', voteCount: 2, hasVoted: true }));
+
+    await vi.waitFor(() => expect(second.outcomes).toHaveLength(1));
+    expect(second.outcomes[0]).toMatchObject({ status: 'sent', result: { voteCount: 2 } });
+  });
+});
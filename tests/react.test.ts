@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { Component, ReactNode, Suspense, createElement } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { FeedbackKit, FeedbackCategory, ValidationError } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import {
+  FeedbackKitProvider,
+  useFeedback,
+  useFeedbackList,
+  useVote,
+  useSubmitFeedback,
+  QueryResult,
+  VoteResult,
+  SubmitFeedbackResult
+} from '../src/react';
+import type { Feedback } from '../src';
+
+class ErrorBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  reset() {
+    this.setState({ error: null });
+  }
+
+  render() {
+    return this.state.error ? this.state.error.name : this.props.children;
+  }
+}
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+describe('React bindings', () => {
+  let server: FakeFeedbackKitServer;
+  let client: FeedbackKit;
+  let renderer: ReactTestRenderer;
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', voters: ['user_1'] });
+    client = new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_2', fetch: server.fetch, retry: false });
+  });
+
+  async function render(hook: () => void, suspense = false): Promise<void> {
+    const Probe = () => {
+      hook();
+      return null;
+    };
+    const child = suspense
+      ? createElement(Suspense, { fallback: 'loading' }, createElement(Probe))
+      : createElement(Probe);
+    await act(async () => {
+      renderer = TestRenderer.create(createElement(FeedbackKitProvider, { client }, child));
+    });
+  }
+
+  it('should load a list and reload when the user changes', async () => {
+    let list: QueryResult<Feedback[]> | undefined;
+    await render(() => {
+      list = useFeedbackList();
+    });
+
+    expect(list?.loading).toBe(false);
+    expect(list?.data).toMatchObject([{ id: 'fb_1', hasVoted: false }]);
+
+    await act(async () => client.setUserId('user_1'));
+
+    expect(list?.data).toMatchObject([{ id: 'fb_1', hasVoted: true }]);
+    expect(server.callsTo('GET', '/feedbacks')).toHaveLength(2);
+  });
+
+  it('should suspend until data is loaded', async () => {
+    let list: QueryResult<Feedback[]> | undefined;
+    await render(() => {
+      list = useFeedbackList({ category: FeedbackCategory.Other }, { suspense: true });
+    }, true);
+
+    expect(renderer.toJSON()).toBeNull();
+    expect(list?.data).toHaveLength(1);
+  });
+
+  it('should load again after an error boundary resets', async () => {
+    // React logs errors caught by boundaries
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    let boundary: ErrorBoundary | null = null;
+    let item: QueryResult<Feedback> | undefined;
+    const Probe = () => {
+      item = useFeedback('fb_2', { suspense: true });
+      return null;
+    };
+    await act(async () => {
+      renderer = TestRenderer.create(
+        createElement(FeedbackKitProvider, { client },
+          createElement(ErrorBoundary, { ref: (instance: ErrorBoundary | null) => { boundary = instance; } },
+            createElement(Suspense, { fallback: 'loading' }, createElement(Probe))
+          )
+        )
+      );
+    });
+
+    expect(renderer.toJSON()).toBe('NotFoundError');
+
+    server.seedFeedback({ id: 'fb_2', title: 'Offline mode' });
+    await act(async () => boundary?.reset());
+
+    expect(renderer.toJSON()).toBeNull();
+    expect(item?.data).toMatchObject({ id: 'fb_2' });
+    expect(server.callsTo('GET', '/feedbacks/fb_2')).toHaveLength(2);
+    consoleError.mockRestore();
+  });
+
+  it('should not load while rendering a tree that never commits', async () => {
+    const Probe = () => {
+      useFeedbackList();
+      return null;
+    };
+    const Forever = () => {
+      throw new Promise(() => undefined);
+    };
+    await act(async () => {
+      renderer = TestRenderer.create(
+        createElement(FeedbackKitProvider, { client },
+          createElement(Suspense, { fallback: 'loading' }, createElement(Probe), createElement(Forever))
+        ),
+        { unstable_isConcurrent: true }
+      );
+    });
+
+    expect(renderer.toJSON()).toBe('loading');
+    expect(server.callsTo('GET', '/feedbacks')).toHaveLength(0);
+  });
+
+  it('should update listed items after a vote', async () => {
+    let list: QueryResult<Feedback[]> | undefined;
+    let voting: VoteResult | undefined;
+    await render(() => {
+      list = useFeedbackList();
+      voting = useVote('fb_1');
+    });
+
+    await act(async () => {
+      await voting?.vote();
+    });
+
+    expect(list?.data).toMatchObject([{ voteCount: 2, hasVoted: true }]);
+    expect(server.getVoters('fb_1')).toContain('user_2');
+  });
+
+  it('should expose typed submit errors and reload lists after submitting', async () => {
+    let list: QueryResult<Feedback[]> | undefined;
+    let submitting: SubmitFeedbackResult | undefined;
+    await render(() => {
+      list = useFeedbackList();
+      submitting = useSubmitFeedback();
+    });
+
+    await act(async () => {
+      await submitting?.submit({ title: '', description: 'x', category: FeedbackCategory.Other }).catch(() => undefined);
+    });
+    expect(submitting?.error).toBeInstanceOf(ValidationError);
+
+    await act(async () => {
+      await submitting?.submit({ title: 'Widgets', description: 'Home screen', category: FeedbackCategory.Other });
+    });
+    expect(submitting?.error).toBeNull();
+    expect(list?.data).toHaveLength(2);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Feedback,
+  FeedbackCategory,
+  FeedbackKit,
+  FeedbackStatus,
+  RoadmapGenerator,
+  buildRoadmap,
+  buildChangelog,
+  renderRoadmapMarkdown,
+  renderRoadmapHtml,
+  renderChangelogFeed
+} from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+const feedback = (overrides: Partial<Feedback>): Feedback => ({
+  id: 'fb',
+  title: 'Item',
+  description: '',
+  status: FeedbackStatus.Approved,
+  category: FeedbackCategory.FeatureRequest,
+  userId: 'user_1',
+  voteCount: 0,
+  hasVoted: false,
+  commentCount: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+const items = [
+  feedback({ id: 'a', title: 'Dark mode', voteCount: 3 }),
+  feedback({ id: 'b', title: 'Export <CSV>', voteCount: 8 }),
+  feedback({ id: 'c', title: 'Night theme', mergedIntoId: 'a', status: FeedbackStatus.Pending }),
+  feedback({ id: 'd', title: 'Widgets', status: FeedbackStatus.TestFlight }),
+  feedback({ id: 'e', title: 'Sync', status: FeedbackStatus.Completed, updatedAt: '2024-03-01T00:00:00Z' }),
+  feedback({ id: 'f', title: 'Login', status: FeedbackStatus.Completed, updatedAt: '2023-12-01T00:00:00Z' }),
+  feedback({ id: 'g', title: 'Spam', status: FeedbackStatus.Pending })
+];
+
+describe('roadmap', () => {
+  it('should group, rank and fold merged items', () => {
+    const roadmap = buildRoadmap(items);
+
+    expect(roadmap.columns.map((column) => [column.id, column.items.map((item) => item.feedback.id)])).toEqual([
+      ['planned', ['b', 'a']],
+      ['in_progress', []],
+      ['beta', ['d']],
+      ['shipped', ['e', 'f']]
+    ]);
+    expect(roadmap.columns[0].items[1].merged.map((item) => item.id)).toEqual(['c']);
+  });
+
+  it('should build a changelog of items completed since a date', () => {
+    expect(buildChangelog(items, '2024-01-01').items.map((item) => item.feedback.id)).toEqual(['e']);
+  });
+
+  it('should render Markdown and escaped HTML', () => {
+    const roadmap = buildRoadmap(items, { columns: ['planned'], titles: { planned: 'Next up' } });
+
+    expect(renderRoadmapMarkdown(roadmap)).toBe(
+      '## Next up\n\n- **Export \\<CSV\\>** (8 votes)\n- **Dark mode** (3 votes, 1 merged)\n'
+    );
+    expect(renderRoadmapHtml(roadmap)).toContain('Export &lt;CSV&gt;');
+  });
+
+  it('should render Atom and RSS feeds', () => {
+    const changelog = buildChangelog(items, new Date('2024-01-01'));
+
+    const atom = renderChangelogFeed(changelog, { title: 'Releases', link: 'https://example.com/changelog' });
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain('<id>urn:feedbackkit:feedback:e</id>');
+    expect(atom).toContain('<updated>2024-03-01T00:00:00.000Z</updated>');
+    expect(atom).toContain('<author><name>Releases</name></author>');
+    expect(renderChangelogFeed(changelog, { title: 'Releases', link: 'https://example.com', author: 'Acme & Co' }))
+      .toContain('<author><name>Acme &amp; Co</name></author>');
+
+    const rss = renderChangelogFeed(changelog, { title: 'Releases', link: 'https://example.com', format: 'rss' });
+    expect(rss).toContain('<pubDate>Fri, 01 Mar 2024 00:00:00 GMT</pubDate>');
+  });
+
+  it('should load every item including merged ones', async () => {
+    const server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'p', title: 'Parent', status: FeedbackStatus.InProgress });
+    server.seedFeedback({ id: 'm', title: 'Duplicate', mergedIntoId: 'p' });
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch: server.fetch });
+
+    const roadmap = await new RoadmapGenerator(client.feedback).roadmap({ columns: ['in_progress'] });
+
+    expect(roadmap.columns[0].items).toMatchObject([{ feedback: { id: 'p' }, merged: [{ id: 'm' }] }]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FeedbackKit, FeedbackCategory, FeedbackKitConfig, ValidationError } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+describe('identify', () => {
+  let server: FakeFeedbackKitServer;
+
+  const createClient = (config: Partial<FeedbackKitConfig> = {}) =>
+    new FeedbackKit({ apiKey: 'sf_test_key', fetch: server.fetch, retry: false, ...config });
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode' });
+  });
+
+  it('should register the user and use it as the default for requests', async () => {
+    const client = createClient();
+
+    const user = await client.identify('user_1', { email: 'user@example.com', mrr: 9.99 });
+    expect(user).toMatchObject({ userId: 'user_1', mrr: 9.99 });
+    expect(client.getUserId()).toBe('user_1');
+
+    await client.votes.vote('fb_1', { notifyStatusChange: true });
+    await client.comments.create('fb_1', { content: 'Yes please' });
+    await client.feedback.create({ title: 'Sync', description: 'Across devices', category: FeedbackCategory.Other });
+    await client.events.track({ eventName: 'onboarding_completed' });
+
+    const [vote] = server.callsTo('POST', '/feedbacks/fb_1/votes');
+    expect(vote.headers['X-User-Id']).toBe('user_1');
+    expect(vote.body).toMatchObject({ userId: 'user_1', email: 'user@example.com' });
+    expect(server.getComments('fb_1')[0].userId).toBe('user_1');
+    expect(server.callsTo('POST', '/feedbacks')[0].body).toMatchObject({ userId: 'user_1', userEmail: 'user@example.com' });
+    expect(server.getEvents()[0].userId).toBe('user_1');
+
+    await client.votes.unvote('fb_1');
+    expect(server.getVoters('fb_1')).toEqual([]);
+  });
+
+  it('should throttle registration of the same user', async () => {
+    const client = createClient();
+
+    await client.identify('user_1', { mrr: 5 });
+    expect(await client.identify('user_1')).toBeNull();
+    await client.identify('user_1', { mrr: 10 });
+    await client.identify('user_2');
+
+    expect(server.callsTo('POST', '/users/register').map((call) => call.body)).toEqual([
+      { userId: 'user_1', mrr: 5 },
+      { userId: 'user_1', mrr: 10 },
+      { userId: 'user_2' }
+    ]);
+    expect(server.getUser('user_1')?.mrr).toBe(10);
+  });
+
+  it('should register again once the interval has passed', async () => {
+    const client = createClient({ registerInterval: 0 });
+
+    await Promise.all([client.identify('user_1'), client.identify('user_1')]);
+    await client.identify('user_1');
+
+    expect(server.callsTo('POST', '/users/register')).toHaveLength(2);
+  });
+
+  it('should forget the user on reset', async () => {
+    const client = createClient();
+    const changes: Array<string | undefined> = [];
+    client.onUserIdChange((userId) => changes.push(userId));
+
+    await client.identify('user_1', { email: 'user@example.com' });
+    client.reset();
+
+    expect(client.getUserId()).toBeUndefined();
+    expect(changes).toEqual(['user_1', undefined]);
+    await expect(client.votes.vote('fb_1')).rejects.toThrow(ValidationError);
+
+    await client.identify('user_1');
+    expect(server.callsTo('POST', '/users/register')).toHaveLength(2);
+  });
+
+  it('should keep explicit request values over the session', async () => {
+    const client = createClient({ userId: 'user_1' });
+
+    await client.votes.vote('fb_1', { userId: 'user_2', email: 'other@example.com' });
+
+    expect(server.callsTo('POST', '/feedbacks/fb_1/votes')[0].body).toMatchObject({
+      userId: 'user_2',
+      email: 'other@example.com'
+    });
+  });
+});
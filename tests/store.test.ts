@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackStore,
+  ForbiddenError,
+  ConflictError,
+  QueuedError,
+  MemoryStorage,
+  selectFeedbackList,
+  selectFeedbackById
+} from '../src';
+import { QueryCache } from '../src/store/query-cache';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status < 400,
+  status,
+  headers: new Headers({ 'content-type': 'application/json' }),
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+const feedback = (overrides: Record<string, unknown> = {}) => ({
+  id: 'fb_1',
+  title: 'Dark mode',
+  status: 'pending',
+  voteCount: 3,
+  hasVoted: false,
+  commentCount: 0,
+  ...overrides
+});
+
+async function createStore(items: unknown[]) {
+  const fetch = vi.fn().mockResolvedValueOnce(jsonResponse(items));
+  const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, retry: false });
+  const store = new FeedbackStore(client.feedback, client.votes);
+  await store.load();
+  return { store, fetch };
+}
+
+describe('FeedbackStore', () => {
+  it('should load and normalize feedback', async () => {
+    const { store } = await createStore([feedback(), feedback({ id: 'fb_2' })]);
+
+    expect(store.getState().status).toBe('ready');
+    expect(selectFeedbackList(store.getState()).map((item) => item.id)).toEqual(['fb_1', 'fb_2']);
+  });
+
+  it('should notify subscribers and selectors on change', async () => {
+    const { store, fetch } = await createStore([feedback()]);
+    const listener = vi.fn();
+    store.select((state) => selectFeedbackById(state, 'fb_1')?.voteCount, listener);
+
+    fetch.mockResolvedValueOnce(jsonResponse({ feedbackId: 'fb_1', voteCount: 4, hasVoted: true }));
+    await store.vote('fb_1', { userId: 'user_1' });
+
+    expect(listener.mock.calls.map(([value]) => value)).toEqual([3, 4]);
+  });
+
+  it('should apply votes optimistically and reconcile with the response', async () => {
+    const { store, fetch } = await createStore([feedback()]);
+    let resolve!: (value: unknown) => void;
+    fetch.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+
+    const pending = store.vote('fb_1', { userId: 'user_1' });
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: true, voteCount: 4 });
+    expect(store.getState().pendingVotes).toEqual({ fb_1: true });
+
+    resolve(jsonResponse({ feedbackId: 'fb_1', voteCount: 10, hasVoted: true }));
+    await pending;
+
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: true, voteCount: 10 });
+    expect(store.getState().pendingVotes).toEqual({});
+  });
+
+  it('should roll back when the vote fails', async () => {
+    const { store, fetch } = await createStore([feedback()]);
+    fetch.mockResolvedValueOnce(jsonResponse({ error: true, reason: 'Already voted' }, 409));
+
+    await expect(store.vote('fb_1', { userId: 'user_1' })).rejects.toBeInstanceOf(ConflictError);
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: false, voteCount: 3 });
+  });
+
+  it('should roll back a failed unvote', async () => {
+    const { store, fetch } = await createStore([feedback({ hasVoted: true })]);
+    fetch.mockResolvedValueOnce(jsonResponse({ error: true, reason: 'Project archived' }, 403));
+
+    await expect(store.unvote('fb_1', { userId: 'user_1' })).rejects.toBeInstanceOf(ForbiddenError);
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: true, voteCount: 3 });
+  });
+
+  it('should keep the optimistic state of a vote queued offline', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(jsonResponse([feedback()]));
+    const client = new FeedbackKit({
+      apiKey: 'sf_test_key',
+      fetch,
+      retry: false,
+      offline: { storage: new MemoryStorage(), replayOnReconnect: false }
+    });
+    const store = new FeedbackStore(client.feedback, client.votes);
+    await store.load();
+    fetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(store.vote('fb_1', { userId: 'user_1' })).rejects.toBeInstanceOf(QueuedError);
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: true, voteCount: 4 });
+    expect(store.getState().pendingVotes).toEqual({});
+  });
+
+  it('should run actions on the same item one after another', async () => {
+    const { store, fetch } = await createStore([feedback()]);
+    let resolve!: (value: unknown) => void;
+    fetch.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+    fetch.mockResolvedValueOnce(jsonResponse({ error: true, reason: 'Project archived' }, 403));
+
+    const voting = store.vote('fb_1', { userId: 'user_1' });
+    const unvoting = store.unvote('fb_1', { userId: 'user_1' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    resolve(jsonResponse({ feedbackId: 'fb_1', voteCount: 4, hasVoted: true }));
+    await expect(voting).resolves.toMatchObject({ hasVoted: true });
+    expect(store.getState().pendingVotes).toEqual({ fb_1: true });
+    await expect(unvoting).rejects.toBeInstanceOf(ForbiddenError);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(selectFeedbackById(store.getState(), 'fb_1')).toMatchObject({ hasVoted: true, voteCount: 4 });
+    expect(store.getState().pendingVotes).toEqual({});
+  });
+
+  it('should block votes on completed and rejected feedback locally', async () => {
+    const { store, fetch } = await createStore([feedback({ status: 'completed' }), feedback({ id: 'fb_2', status: 'rejected' })]);
+
+    await expect(store.vote('fb_1', { userId: 'user_1' })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(store.vote('fb_2', { userId: 'user_1' })).rejects.toBeInstanceOf(ForbiddenError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record load errors in state', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(jsonResponse({ error: true, reason: 'Invalid API key' }, 401));
+    const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch });
+    const store = new FeedbackStore(client.feedback, client.votes);
+
+    await expect(store.load()).rejects.toThrow('Invalid API key');
+    expect(store.getState()).toMatchObject({ status: 'error', error: expect.objectContaining({ statusCode: 401 }) });
+  });
+});
+
+describe('QueryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should remove entries some time after their last observer is gone', () => {
+    vi.useFakeTimers();
+    const cache = new QueryCache(1000);
+    const load = vi.fn().mockResolvedValue([]);
+
+    cache.ensure('list:a', 'list', load);
+    const stopFirst = cache.observe('list:a');
+    const stopSecond = cache.observe('list:a');
+    stopFirst();
+    vi.advanceTimersByTime(5000);
+    expect(cache.get('list:a')).toBeDefined();
+
+    stopSecond();
+    vi.advanceTimersByTime(500);
+    cache.observe('list:a')();
+    vi.advanceTimersByTime(999);
+    expect(cache.get('list:a')).toBeDefined();
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('list:a')).toBeUndefined();
+  });
+
+  it('should remove entries that are never observed', () => {
+    vi.useFakeTimers();
+    const cache = new QueryCache(1000);
+
+    cache.ensure('list:a', 'list', () => Promise.resolve([]));
+    vi.advanceTimersByTime(1000);
+
+    expect(cache.get('list:a')).toBeUndefined();
+  });
+
+  it('should wrap non-FeedbackKit errors', async () => {
+    const cache = new QueryCache();
+
+    const entry = cache.ensure('feedback:fb_1', 'feedback', () => Promise.reject(new TypeError('boom')));
+    await entry.promise;
+
+    expect(cache.get('feedback:fb_1')).toMatchObject({
+      status: 'error',
+      error: expect.objectContaining({ name: 'FeedbackKitError', code: 'UNKNOWN_ERROR', message: 'boom' })
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackCategory,
+  FeedbackSort,
+  FeedbackStatus,
+  AuthenticationError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PaymentRequiredError
+} from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+
+const newFeedback = {
+  title: 'Dark mode',
+  description: 'Please add a dark theme.',
+  category: FeedbackCategory.FeatureRequest,
+  userId: 'user_1'
+};
+
+describe('FakeFeedbackKitServer', () => {
+  let server: FakeFeedbackKitServer;
+  let client: FeedbackKit;
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    client = new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_1', fetch: server.fetch, retry: false });
+  });
+
+  it('should auto-vote for the creator', async () => {
+    const created = await client.feedback.create(newFeedback);
+
+    expect(created).toMatchObject({ voteCount: 1, hasVoted: true, status: FeedbackStatus.Pending });
+    expect(server.getVoters(created.id)).toEqual(['user_1']);
+    expect(server.callsTo('POST', '/feedbacks')[0].body).toMatchObject({ title: 'Dark mode' });
+  });
+
+  it('should compute hasVoted from X-User-Id', async () => {
+    const seeded = server.seedFeedback({ title: 'Export', voters: ['user_2'] });
+
+    expect((await client.feedback.get(seeded.id)).hasVoted).toBe(false);
+    client.setUserId('user_2');
+    expect((await client.feedback.get(seeded.id)).hasVoted).toBe(true);
+  });
+
+  it('should enforce voting rules', async () => {
+    const open = server.seedFeedback({ title: 'Open', status: FeedbackStatus.Approved });
+    const done = server.seedFeedback({ title: 'Done', status: FeedbackStatus.Completed });
+
+    await expect(client.votes.vote(open.id, { userId: 'user_1' })).resolves.toMatchObject({ voteCount: 1 });
+    await expect(client.votes.vote(open.id, { userId: 'user_1' })).rejects.toThrow(ConflictError);
+    await expect(client.votes.vote(done.id, { userId: 'user_1' })).rejects.toThrow(ForbiddenError);
+    await expect(client.votes.vote('missing', { userId: 'user_1' })).rejects.toThrow(NotFoundError);
+    await expect(client.votes.unvote(open.id, { userId: 'user_1' })).resolves.toMatchObject({ voteCount: 0 });
+  });
+
+  it('should refuse writes to archived projects and beyond the feedback limit', async () => {
+    server.configure({ feedbackLimit: 1 });
+    await client.feedback.create(newFeedback);
+    await expect(client.feedback.create(newFeedback)).rejects.toThrow(PaymentRequiredError);
+
+    server.configure({ archived: true, feedbackLimit: undefined });
+    await expect(client.feedback.create(newFeedback)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should reject unknown API keys', async () => {
+    server.configure({ apiKey: 'sf_test_key' });
+    const other = new FeedbackKit({ apiKey: 'sf_invalid_key', fetch: server.fetch });
+
+    await expect(other.feedback.list()).rejects.toThrow(AuthenticationError);
+    expect(server.calls[0].status).toBe(401);
+  });
+
+  it('should filter, sort and paginate lists', async () => {
+    server.seedFeedback({ title: 'A', voteCount: 1, category: FeedbackCategory.BugReport });
+    server.seedFeedback({ title: 'B', voteCount: 5 });
+    server.seedFeedback({ title: 'C', voteCount: 3 });
+
+    expect((await client.feedback.list()).map((item) => item.title)).toEqual(['B', 'C', 'A']);
+    expect((await client.feedback.list({ sort: FeedbackSort.Newest })).map((item) => item.title)).toEqual([
+      'C',
+      'B',
+      'A'
+    ]);
+    expect(await client.feedback.list({ category: FeedbackCategory.BugReport })).toHaveLength(1);
+
+    const titles: string[] = [];
+    for await (const item of client.feedback.iterate({ limit: 2 })) {
+      titles.push(item.title);
+    }
+    expect(titles).toEqual(['B', 'C', 'A']);
+  });
+
+  it('should store comments, users and events', async () => {
+    const seeded = server.seedFeedback({ title: 'Export' });
+
+    await client.comments.create(seeded.id, { content: 'Yes please', userId: 'user_1' });
+    await client.users.register({ userId: 'user_1', mrr: 20 });
+    await client.events.track({ eventName: 'feedback_list', userId: 'user_1' });
+
+    expect(await client.comments.list(seeded.id)).toMatchObject([{ content: 'Yes please' }]);
+    expect(server.getFeedback(seeded.id)?.commentCount).toBe(1);
+    expect(server.getUser('user_1')?.mrr).toBe(20);
+    expect(server.getEvents()).toMatchObject([{ eventName: 'feedback_list' }]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FeedbackKit,
+  FeedbackCategory,
+  ValidationError,
+  validateCreateFeedback,
+  validateVote,
+  validateRegisterUser,
+  validateApiKey
+} from '../src';
+
+const validFeedback = {
+  title: 'Dark mode',
+  description: 'Please add a dark theme.',
+  category: FeedbackCategory.FeatureRequest,
+  userId: 'user_1'
+};
+
+function createClient() {
+  const fetch = vi.fn();
+  const client = new FeedbackKit({ apiKey: 'sf_test_key', fetch, retry: false });
+  return { client, fetch };
+}
+
+describe('validators', () => {
+  it('should accept valid feedback', () => {
+    expect(validateCreateFeedback(validFeedback)).toEqual([]);
+  });
+
+  it('should report every invalid field', () => {
+    const errors = validateCreateFeedback({
+      ...validFeedback,
+      title: '   ',
+      description: 'x'.repeat(5001),
+      category: 'nonsense' as FeedbackCategory,
+      userEmail: 'not-an-email',
+      mailingListEmailTypes: ['operational', 'spam']
+    });
+
+    expect(errors.map((error) => [error.field, error.code])).toEqual([
+      ['title', 'required'],
+      ['description', 'too_long'],
+      ['category', 'invalid_value'],
+      ['userEmail', 'invalid_format'],
+      ['mailingListEmailTypes', 'invalid_value']
+    ]);
+  });
+
+  it('should check vote ids and email', () => {
+    expect(validateVote('fb_1', { userId: 'user_1', email: 'user@example.com' })).toEqual([]);
+    expect(validateVote('', { userId: 'user_1', email: 'nope' }).map((error) => error.field)).toEqual([
+      'feedbackId',
+      'email'
+    ]);
+  });
+
+  it('should require a finite, non-negative mrr', () => {
+    expect(validateRegisterUser({ userId: 'user_1', mrr: 9.99 })).toEqual([]);
+    expect(validateRegisterUser({ userId: 'user_1', mrr: -1 })).toHaveLength(1);
+    expect(validateRegisterUser({ userId: 'user_1', mrr: NaN })).toHaveLength(1);
+    expect(validateRegisterUser({ userId: 'user_1', mrr: Infinity })).toHaveLength(1);
+  });
+
+  it('should check the api key prefix', () => {
+    expect(validateApiKey('sf_abc')).toEqual([]);
+    expect(validateApiKey('pk_abc')[0].code).toBe('invalid_format');
+    expect(validateApiKey('')[0].code).toBe('required');
+  });
+});
+
+describe('pre-flight validation', () => {
+  it('should reject invalid feedback without a request', async () => {
+    const { client, fetch } = createClient();
+
+    const error = await client.feedback.create({ ...validFeedback, title: 'x'.repeat(201) }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.statusCode).toBe(400);
+    expect(error.fields).toEqual([
+      { field: 'title', code: 'too_long', message: 'title must be at most 200 characters' }
+    ]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject empty comments, empty vote ids and negative mrr', async () => {
+    const { client, fetch } = createClient();
+
+    await expect(client.comments.create('fb_1', { content: '', userId: 'user_1' })).rejects.toThrow(ValidationError);
+    await expect(client.votes.vote('fb_1', { userId: '' })).rejects.toThrow(ValidationError);
+    await expect(client.users.register({ userId: 'user_1', mrr: -5 })).rejects.toThrow(ValidationError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createApp, effectScope, reactive, EffectScope } from 'vue';
+import { FeedbackKit, FeedbackCategory, FeedbackStatus, ListFeedbackOptions, ValidationError } from '../src';
+import { FakeFeedbackKitServer } from '../src/testing';
+import { FeedbackKitPlugin, useFeedbackList, useFeedback, useVote, useSubmitFeedback } from '../src/vue';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Vue composables', () => {
+  let server: FakeFeedbackKitServer;
+  let client: FeedbackKit;
+  let scope: EffectScope;
+  let setup: <T>(fn: () => T) => T;
+
+  beforeEach(() => {
+    server = new FakeFeedbackKitServer();
+    server.seedFeedback({ id: 'fb_1', title: 'Dark mode', voters: ['user_1'] });
+    server.seedFeedback({ id: 'fb_2', title: 'Sync', status: FeedbackStatus.Approved });
+    client = new FeedbackKit({ apiKey: 'sf_test_key', userId: 'user_2', fetch: server.fetch, retry: false });
+
+    const app = createApp({}).use(FeedbackKitPlugin, { client });
+    scope = effectScope();
+    setup = (fn) => app.runWithContext(() => scope.run(fn) as ReturnType<typeof fn>);
+  });
+
+  afterEach(() => scope.stop());
+
+  it('should react to reactive options and user changes', async () => {
+    const filters = reactive<ListFeedbackOptions>({});
+    const { data, loading } = setup(() => useFeedbackList(filters));
+
+    expect(loading.value).toBe(true);
+    await flush();
+    expect(data.value?.map((item) => item.id)).toEqual(['fb_1', 'fb_2']);
+
+    filters.status = FeedbackStatus.Approved;
+    expect(loading.value).toBe(true);
+    await flush();
+    expect(data.value?.map((item) => item.id)).toEqual(['fb_2']);
+
+    filters.status = undefined;
+    client.setUserId('user_1');
+    expect(loading.value).toBe(true);
+    await flush();
+    expect(data.value?.[0]).toMatchObject({ id: 'fb_1', hasVoted: true });
+  });
+
+  it('should not load when data is read after the scope stops', async () => {
+    const filters = reactive<ListFeedbackOptions>({});
+    const { data } = setup(() => useFeedbackList(filters));
+    await flush();
+
+    scope.stop();
+    filters.status = FeedbackStatus.Approved;
+    expect(data.value).toBeUndefined();
+    await flush();
+
+    expect(server.callsTo('GET', '/feedbacks')).toHaveLength(1);
+  });
+
+  it('should update loaded items after a vote', async () => {
+    const { data } = setup(() => useFeedback('fb_1'));
+    const { vote, pending } = setup(() => useVote('fb_1'));
+    expect(data.value).toBeUndefined();
+    await flush();
+
+    const voting = vote();
+    expect(pending.value).toBe(true);
+    await voting;
+
+    expect(pending.value).toBe(false);
+    expect(data.value).toMatchObject({ voteCount: 2, hasVoted: true });
+  });
+
+  it('should expose typed submit errors and reload lists after submitting', async () => {
+    const { data } = setup(() => useFeedbackList());
+    const { submit, error } = setup(() => useSubmitFeedback());
+    await flush();
+
+    await submit({ title: '', description: 'x', category: FeedbackCategory.Other }).catch(() => undefined);
+    expect(error.value).toBeInstanceOf(ValidationError);
+
+    await submit({ title: 'Widgets', description: 'Home screen', category: FeedbackCategory.Other });
+    expect(error.value).toBeNull();
+    expect(data.value).toHaveLength(2);
+    await flush();
+    expect(data.value).toHaveLength(3);
+  });
+
+  it('should require the plugin', () => {
+    expect(() => effectScope().run(() => useFeedbackList())).toThrow('install FeedbackKitPlugin');
+  });
+});